@@ -1,7 +1,11 @@
 import {
   App,
+  DropdownComponent,
   Editor,
   EditorPosition,
+  ExtraButtonComponent,
+  FileSystemAdapter,
+  ItemView,
   MarkdownView,
   Modal,
   Notice,
@@ -9,16 +13,102 @@ import {
   Plugin,
   PluginSettingTab,
   Setting,
+  setIcon,
+  TextComponent,
   TFile,
   TFolder,
   TAbstractFile,
   Menu,
+  WorkspaceLeaf,
+  getAllTags,
+  getFrontMatterInfo,
 } from 'obsidian';
 import * as https from 'https';
 import * as http from 'http';
+import * as path from 'path';
 import { URL } from 'url';
-import { R2Uploader, R2Setting } from './src/uploader/r2Uploader';
+import { StoredObject, Uploader, UploadOptions, UploadResult } from './src/uploader/uploader';
+import { OverwritePolicy } from './src/uploader/keyCollision';
+import { extensionFromMimeType, mimeTypeFromExtension } from './src/uploader/mimeTypes';
+import {
+  createUploader,
+  getProvider,
+  ProviderId,
+  ProviderSettings,
+  ProviderTextSetting,
+  UPLOADER_PROVIDERS,
+} from './src/uploader/providers';
+import {
+  DEFAULT_PROFILE,
+  NoteContext,
+  resolveProfile,
+  RoutingRule,
+  RoutingRuleType,
+  UploadProfile,
+} from './src/uploader/profiles';
 import ImageTagProcessor, { ImageTag } from './src/uploader/imageTagProcessor';
+import { UploaderUtils } from './src/uploader/uploaderUtils';
+import { UploadIndex, UploadIndexEntry } from './src/uploader/uploadIndex';
+import { ImageOutputFormat, ImageProcessor } from './src/uploader/imageProcessor';
+import { MetadataStripper } from './src/uploader/metadataStripper';
+import { UploadJob, UploadQueue } from './src/uploader/uploadQueue';
+import { createLimiter, Limiter, runPool } from './src/uploader/workerPool';
+import {
+  blobBody,
+  diskBody,
+  hashBody,
+  MultipartOptions,
+  UploadBody,
+  writeBlobToDisk,
+} from './src/uploader/multipartUpload';
+import {
+  CleanedUpAttachment,
+  PublishHistory,
+  PublishJournal,
+  PublishJournalEntry,
+} from './src/uploader/publishJournal';
+import {
+  compareBucket,
+  keyFromUrl,
+  MediaReference,
+  referencesProfile,
+} from './src/uploader/orphans';
+import {
+  isObjectReference,
+  parseObjectReference,
+  PresignedUrlCache,
+  replaceObjectReferences,
+} from './src/uploader/objectReference';
+import {
+  renderPathTemplate,
+  TEMPLATE_FILTERS,
+  TEMPLATE_TOKENS,
+  TemplateIssueReason,
+  TemplateNote,
+  validatePathTemplate,
+} from './src/uploader/pathTemplate';
+import {
+  EMBED_TEMPLATE_TOKENS,
+  EmbedImage,
+  EmbedStyle,
+  renderEmbedTemplate,
+  renderImageEmbed,
+  renderResponsiveImage,
+  templateUsesDimensions,
+} from './src/uploader/embedStyle';
+import {
+  parseWidths,
+  ResponsiveMarkup,
+  UploadedVariant,
+  uploadVariants,
+} from './src/uploader/responsiveImages';
+import {
+  AttachmentRender,
+  AttachmentType,
+  DEFAULT_ATTACHMENT_TYPES,
+  findAttachmentType,
+  renderAttachment,
+} from './src/uploader/attachmentTypes';
 
 // Helper class to create a copy of paste event for local paste
 class PasteEventCopy extends ClipboardEvent {
@@ -47,6 +137,10 @@ const generatePseudoRandomId = (generatedIdLength = 5) => {
 
 type Language = 'en' | 'ko';
 
+type AttachmentCleanup = 'keep' | 'system-trash' | 'obsidian-trash' | 'archive';
+
+type LocalLinkStyle = 'wikilink' | 'markdown';
+
 interface Translations {
   // General
   pluginName: string;
@@ -59,10 +153,89 @@ interface Translations {
   publishCurrentFolderToR2: string;
   publishEntireVaultToR2: string;
   publishSelectedFilesToR2: string;
+  previewPublishPageToR2: string;
+  previewPublishCurrentFolderToR2: string;
+  previewPublishEntireVaultToR2: string;
+  revertLastPublish: string;
+  openBucketBrowser: string;
+  findOrphans: string;
+  localizeCurrentNote: string;
+  localizeCurrentFolder: string;
+  localizeEntireVault: string;
   
   // Upload
   uploading: string;
   uploaded: string;
+  reusedUpload: string;
+  imageProcessingFailed: string;
+  responsiveVariantsFailed: string;
+  metadataStripFailed: string;
+  uploadSavedLocally: string;
+  multipartProgress: string;
+  resumingUploads: string;
+  saveStateFailed: string;
+  publishProgress: string;
+  progressFiles: string;
+  progressImages: string;
+  progressBytes: string;
+  progressCurrent: string;
+  progressErrors: string;
+  progressStatusBar: string;
+  cancelling: string;
+  close: string;
+  publishCancelled: string;
+  publishPreview: string;
+  previewScanning: string;
+  previewNotes: string;
+  previewUploads: string;
+  previewDownloads: string;
+  previewUnresolved: string;
+  previewNothing: string;
+  previewLocal: string;
+  previewExternal: string;
+  previewNotFound: string;
+  previewProfile: string;
+  publishNow: string;
+  revertPublishTitle: string;
+  revertPublishDesc: string;
+  deleteUploadedObjects: string;
+  deleteUploadedObjectsDesc: string;
+  revert: string;
+  noPublishToRevert: string;
+  revertFinished: string;
+  revertSkipped: string;
+  objectsDeleted: string;
+  objectsDeleteFailed: string;
+  objectsStillLinked: string;
+  bucketBrowser: string;
+  bucketPrefix: string;
+  refresh: string;
+  loadMore: string;
+  loading: string;
+  objectsLoaded: string;
+  noObjects: string;
+  listFailed: string;
+  copyEmbed: string;
+  insertAtCursor: string;
+  openObject: string;
+  delete: string;
+  copiedToClipboard: string;
+  deleteObjectConfirm: string;
+  deleteFailed: string;
+  deleted: string;
+  scanningForOrphans: string;
+  orphanReport: string;
+  orphansFound: string;
+  noOrphans: string;
+  missingObjects: string;
+  deleteSelected: string;
+  deleteObjectsConfirm: string;
+  cleanupFailed: string;
+  attachmentsCleanedUp: string;
+  attachmentsNotRestored: string;
+  startingLocalize: string;
+  localizeFinished: string;
+  localizeFailed: string;
   uploadFailed: string;
   downloadExternalImage: string;
   
@@ -106,15 +279,145 @@ interface Translations {
   updateOriginalDocumentDesc: string;
   ignoreNoteProperties: string;
   ignoreNotePropertiesDesc: string;
+  publishExportFolder: string;
+  publishExportFolderDesc: string;
+  publishCopyNeedsExportFolder: string;
+  publishedCopyToClipboard: string;
+  publishedCopiesExported: string;
   showProgressModal: string;
   showProgressModalDesc: string;
   confirmBeforeUpload: string;
   confirmBeforeUploadDesc: string;
   downloadExternalImages: string;
   downloadExternalImagesDesc: string;
+  attachmentCleanup: string;
+  attachmentCleanupDesc: string;
+  cleanupKeep: string;
+  cleanupSystemTrash: string;
+  cleanupObsidianTrash: string;
+  cleanupArchive: string;
+  overwritePolicy: string;
+  overwritePolicyDesc: string;
+  overwriteReplace: string;
+  overwriteReuse: string;
+  overwriteSuffix: string;
+  overwriteFail: string;
+  attachmentArchiveFolder: string;
+  attachmentArchiveFolderDesc: string;
+  deduplicateUploads: string;
+  deduplicateUploadsDesc: string;
+  verifyDeduplicatedUploads: string;
+  verifyDeduplicatedUploadsDesc: string;
+  clearUploadIndex: string;
+  clearUploadIndexDesc: string;
+  clear: string;
+  imageProcessing: string;
+  stripMetadata: string;
+  stripMetadataDesc: string;
+  keepImageOrientation: string;
+  keepImageOrientationDesc: string;
+  processImages: string;
+  processImagesDesc: string;
+  maxImageWidth: string;
+  maxImageWidthDesc: string;
+  maxImageHeight: string;
+  maxImageHeightDesc: string;
+  imageQuality: string;
+  imageQualityDesc: string;
+  imageOutputFormat: string;
+  imageOutputFormatDesc: string;
+  imageFormatOriginal: string;
+  skipProcessingBelow: string;
+  skipProcessingBelowDesc: string;
+  responsiveImages: string;
+  responsiveImagesDesc: string;
+  responsiveWidths: string;
+  responsiveWidthsDesc: string;
+  responsiveMarkup: string;
+  responsiveMarkupDesc: string;
+  responsiveMarkupSrcset: string;
+  responsiveMarkupPicture: string;
+  responsiveSizes: string;
+  responsiveSizesDesc: string;
+  uploadQueue: string;
+  uploadConcurrency: string;
+  uploadConcurrencyDesc: string;
+  uploadRetries: string;
+  uploadRetriesDesc: string;
+  localizeImages: string;
+  localizeOwnImagesOnly: string;
+  localizeOwnImagesOnlyDesc: string;
+  localizeLinkStyle: string;
+  localizeLinkStyleDesc: string;
+  attachmentTypes: string;
+  attachmentTypesDesc: string;
+  attachmentTypeImage: string;
+  attachmentTypeVideo: string;
+  attachmentTypeAudio: string;
+  attachmentTypePdf: string;
+  attachmentTypeDocument: string;
+  attachmentMimeTypes: string;
+  attachmentExtensions: string;
+  renderImage: string;
+  renderVideo: string;
+  renderAudio: string;
+  renderIframe: string;
+  renderLink: string;
+  attachmentTemplate: string;
+  attachmentTemplateDesc: string;
+  embedPreview: string;
+  linkStyleWikilink: string;
+  linkStyleMarkdown: string;
+  publishConcurrency: string;
+  publishConcurrencyDesc: string;
+  multipartThreshold: string;
+  multipartThresholdDesc: string;
+  multipartPartSize: string;
+  multipartPartSizeDesc: string;
+  privateBuckets: string;
+  privateBucketsDesc: string;
+  presignedUrlLifetime: string;
+  presignedUrlLifetimeDesc: string;
+  sharedLinkLifetime: string;
+  sharedLinkLifetimeDesc: string;
+  privateBucket: string;
+  privateBucketDesc: string;
+  embedStyle: string;
+  embedStyleDesc: string;
+  embedStyleMarkdown: string;
+  embedStyleHtml: string;
+  embedStyleFigure: string;
+  embedStyleCustom: string;
+  embedTemplate: string;
+  embedTemplateDesc: string;
+  exportWithPresignedLinks: string;
+  exportedWithPresignedLinks: string;
+  noReferencesToPresign: string;
+  sharedCopySuffix: string;
+  pendingUploads: string;
   language: string;
   languageDesc: string;
-  cloudflareR2Settings: string;
+  uploadProfiles: string;
+  uploadProfilesDesc: string;
+  defaultProfile: string;
+  defaultProfileDesc: string;
+  editProfile: string;
+  editProfileDesc: string;
+  addProfile: string;
+  deleteProfile: string;
+  newProfile: string;
+  profileName: string;
+  profileNameDesc: string;
+  routingRules: string;
+  routingRulesDesc: string;
+  addRoutingRule: string;
+  removeRoutingRule: string;
+  routingRuleTypePath: string;
+  routingRuleTypeFrontmatter: string;
+  routingRuleTypeTag: string;
+  storageProvider: string;
+  storageProviderDesc: string;
+  providerSettings: string;
   cloudflareR2AccessKeyID: string;
   cloudflareR2AccessKeyIDDesc: string;
   cloudflareR2SecretAccessKey: string;
@@ -125,8 +428,33 @@ interface Translations {
   cloudflareR2BucketNameDesc: string;
   targetPath: string;
   targetPathDesc: string;
+  pathPreview: string;
+  pathIssueUnknownToken: string;
+  pathIssueBadArgument: string;
+  pathIssueUnknownFilter: string;
+  pathIssueUnclosedBrace: string;
   r2devUrlCustomDomain: string;
   r2devUrlCustomDomainDesc: string;
+  s3AccessKeyID: string;
+  s3AccessKeyIDDesc: string;
+  s3SecretAccessKey: string;
+  s3SecretAccessKeyDesc: string;
+  s3Endpoint: string;
+  s3EndpointDesc: string;
+  s3Region: string;
+  s3RegionDesc: string;
+  s3BucketName: string;
+  s3BucketNameDesc: string;
+  customDomain: string;
+  customDomainDesc: string;
+  cacheControl: string;
+  cacheControlDesc: string;
+  contentDisposition: string;
+  contentDispositionDesc: string;
+  objectMetadata: string;
+  objectMetadataDesc: string;
+  imgurClientId: string;
+  imgurClientIdDesc: string;
 }
 
 const translations: Record<Language, Translations> = {
@@ -134,13 +462,92 @@ const translations: Record<Language, Translations> = {
     pluginName: 'R2 Uploader',
     pluginLoaded: 'R2 Uploader Plugin Loaded!',
     pluginReady: 'R2 Uploader Ready',
-    notConfigured: 'R2 Uploader not configured. Please check your settings.',
+    notConfigured: 'Upload profile "{profile}" is not configured. Please check your settings.',
     publishPageToR2: 'Publish Page to R2',
     publishCurrentFolderToR2: 'Publish Current Folder to R2',
     publishEntireVaultToR2: 'Publish Entire Vault to R2',
     publishSelectedFilesToR2: 'Publish Selected Files to R2',
+    previewPublishPageToR2: 'Preview Publishing Page to R2',
+    previewPublishCurrentFolderToR2: 'Preview Publishing Current Folder to R2',
+    previewPublishEntireVaultToR2: 'Preview Publishing Entire Vault to R2',
+    revertLastPublish: 'Revert Last Publish',
+    openBucketBrowser: 'Open Bucket Browser',
+    findOrphans: 'Find Orphaned Files in Bucket',
+    localizeCurrentNote: 'Localize Images in Current Note',
+    localizeCurrentFolder: 'Localize Images in Current Folder',
+    localizeEntireVault: 'Localize Images in Entire Vault',
     uploading: 'Uploading',
     uploaded: 'Uploaded',
+    reusedUpload: 'Already uploaded, reusing',
+    imageProcessingFailed: 'Could not process image, uploading original',
+    responsiveVariantsFailed: 'Could not create responsive widths, embedding the original only',
+    metadataStripFailed: 'Could not remove metadata, uploading as is',
+    uploadSavedLocally: 'Upload failed, saved to the vault instead',
+    multipartProgress: 'Uploading {name}: {percent}%',
+    resumingUploads: 'Resuming {count} pending uploads',
+    saveStateFailed: 'Could not save plugin data',
+    publishProgress: 'Publishing to R2',
+    progressFiles: 'Notes: {done} / {total}',
+    progressImages: 'Images: {done} / {total}',
+    progressBytes: 'Transferred: {size}',
+    progressCurrent: 'Current: {item}',
+    progressErrors: '{count} errors',
+    progressStatusBar: 'R2: {done}/{total} images',
+    cancelling: 'Cancelling...',
+    close: 'Close',
+    publishCancelled: 'Publishing cancelled',
+    publishPreview: 'Publish preview (nothing has been uploaded)',
+    previewScanning: 'Scanning {count} notes...',
+    previewNotes: '{changed} of {total} notes would change',
+    previewUploads: '{count} images would be uploaded ({size})',
+    previewDownloads: '{count} external images would be downloaded and uploaded',
+    previewUnresolved: '{count} images could not be found',
+    previewNothing: 'Nothing to publish',
+    previewLocal: 'Upload',
+    previewExternal: 'Download',
+    previewNotFound: 'Not found',
+    previewProfile: 'Profile: {profile}',
+    publishNow: 'Publish now',
+    revertPublishTitle: 'Revert publish',
+    revertPublishDesc: 'Restore {count} local embeds in {notes} notes published from {scope} on {date}.',
+    deleteUploadedObjects: 'Delete uploaded files',
+    deleteUploadedObjectsDesc: 'Also delete the {count} files this run uploaded. Files still linked from any note are kept.',
+    revert: 'Revert',
+    noPublishToRevert: 'No publish run to revert',
+    revertFinished: 'Restored {restored} embeds in {notes} notes',
+    revertSkipped: '{count} embeds were changed since publishing and left alone',
+    objectsDeleted: 'Deleted {count} files',
+    objectsDeleteFailed: 'Could not delete {count} files',
+    objectsStillLinked: '{count} files are still linked from notes and were kept',
+    bucketBrowser: 'Bucket browser',
+    bucketPrefix: 'Prefix',
+    refresh: 'Refresh',
+    loadMore: 'Load more',
+    loading: 'Loading...',
+    objectsLoaded: '{count} files',
+    noObjects: 'No files under this prefix',
+    listFailed: 'Could not list files',
+    copyEmbed: 'Copy Markdown embed',
+    insertAtCursor: 'Insert at cursor',
+    openObject: 'Open',
+    delete: 'Delete',
+    copiedToClipboard: 'Copied to clipboard',
+    deleteObjectConfirm: 'Delete "{key}" from the bucket? Notes linking to it will show a broken image.',
+    deleteFailed: 'Delete failed',
+    deleted: 'Deleted',
+    scanningForOrphans: 'Scanning notes and bucket...',
+    orphanReport: 'Unused and missing files',
+    orphansFound: '{count} files ({size}) under "{prefix}" are not used by any note',
+    noOrphans: 'Every file under "{prefix}" is used by a note',
+    missingObjects: '{count} embeds point at files that no longer exist',
+    deleteSelected: 'Delete selected ({count})',
+    deleteObjectsConfirm: 'Delete {count} files from the bucket? This cannot be undone.',
+    cleanupFailed: 'Could not clean up',
+    attachmentsCleanedUp: 'Cleaned up {count} local attachments',
+    attachmentsNotRestored: '{count} attachments were moved to the trash and have to be restored from there',
+    startingLocalize: 'Downloading remote images for {count} notes in {scope}',
+    localizeFinished: 'Downloaded {count} images into {notes} notes',
+    localizeFailed: '{count} images could not be downloaded',
     uploadFailed: 'Upload failed',
     downloadExternalImage: 'Downloading external image',
     noActiveMarkdownView: 'No active markdown view found.',
@@ -175,18 +582,148 @@ const translations: Record<Language, Translations> = {
     useImageNameAsAltText: 'Use image name as Alt Text',
     useImageNameAsAltTextDesc: "Whether to use image name as Alt Text with '-' and '_' replaced with space.",
     updateOriginalDocument: 'Update original document',
-    updateOriginalDocumentDesc: 'Whether to replace internal link with store link.',
+    updateOriginalDocumentDesc: 'Whether to replace internal link with store link. When off, publishing leaves the note untouched and copies the result to the clipboard instead.',
     ignoreNoteProperties: 'Ignore note properties',
-    ignoreNotePropertiesDesc: "Where to ignore note properties when copying to clipboard. This won't affect original note.",
+    ignoreNotePropertiesDesc: "Where to ignore note properties when copying to clipboard or the export folder. This won't affect original note.",
+    publishExportFolder: 'Export folder',
+    publishExportFolderDesc: 'When the original document is not updated, published notes are also written here, keeping their folder structure. Leave empty to only copy a single published note to the clipboard.',
+    publishCopyNeedsExportFolder: 'Set an export folder to publish several notes without updating the originals.',
+    publishedCopyToClipboard: 'Published note copied to the clipboard. The original note was not changed.',
+    publishedCopiesExported: 'Wrote {count} published note(s) to {folder}.',
     showProgressModal: 'Show progress modal',
     showProgressModalDesc: 'Show a modal dialog with detailed progress when uploading images (auto close in 3s). If disabled, a simpler status indicator will be used.',
     confirmBeforeUpload: 'Confirm before upload',
     confirmBeforeUploadDesc: 'Show confirmation dialog before uploading images.',
     downloadExternalImages: 'Download external images',
     downloadExternalImagesDesc: 'Download external images (http/https URLs) and upload them to R2. When enabled, external image URLs will be downloaded and replaced with R2 URLs.',
+    attachmentCleanup: 'Clean up local attachments',
+    attachmentCleanupDesc: 'After publishing, move local images whose embeds were replaced and that no other note links to.',
+    cleanupKeep: 'Keep them',
+    cleanupSystemTrash: 'Move to system trash',
+    cleanupObsidianTrash: 'Move to Obsidian trash (.trash)',
+    cleanupArchive: 'Move to archive folder',
+    overwritePolicy: 'When the key already exists',
+    overwritePolicyDesc: 'What happens when the path template produces a key that is already in the bucket, e.g. with /{filename} or a fixed name. Every option except overwrite checks the bucket before each upload.',
+    overwriteReplace: 'Overwrite the existing file',
+    overwriteReuse: 'Keep it and reuse its URL',
+    overwriteSuffix: 'Add a suffix (-1, -2...)',
+    overwriteFail: 'Fail the upload',
+    attachmentArchiveFolder: 'Archive folder',
+    attachmentArchiveFolderDesc: 'Cleaned up attachments keep their folder structure inside this folder, and are moved back when the publish is reverted.',
+    deduplicateUploads: 'Skip duplicate uploads',
+    deduplicateUploadsDesc: 'Remember the SHA-256 of every uploaded file and reuse the existing URL when the same content is uploaded again with the same profile. Use {hash} or {sha256} in the target path to name objects by their content.',
+    verifyDeduplicatedUploads: 'Verify reused uploads',
+    verifyDeduplicatedUploadsDesc: 'Send a HEAD request before reusing a URL to make sure the object still exists in the bucket. Missing objects are uploaded again.',
+    clearUploadIndex: 'Clear upload index',
+    clearUploadIndexDesc: '{count} uploaded files are remembered. Clearing makes the next upload of each file create a new object.',
+    clear: 'Clear',
+    imageProcessing: 'Image Processing',
+    stripMetadata: 'Strip image metadata',
+    stripMetadataDesc: 'Remove EXIF, XMP and IPTC data (GPS position, camera serial numbers, comments...) from JPEG, PNG, WebP and HEIC images before upload. Pixels are not re-encoded.',
+    keepImageOrientation: 'Keep orientation',
+    keepImageOrientationDesc: 'Keep only the EXIF orientation so rotated photos still display upright.',
+    processImages: 'Process images before upload',
+    processImagesDesc: 'Resize and re-encode PNG, JPEG, WebP, BMP and AVIF images before they are uploaded. GIF and SVG are always uploaded untouched.',
+    maxImageWidth: 'Max width',
+    maxImageWidthDesc: 'Images wider than this are scaled down, keeping the aspect ratio. 0 means no limit.',
+    maxImageHeight: 'Max height',
+    maxImageHeightDesc: 'Images taller than this are scaled down, keeping the aspect ratio. 0 means no limit.',
+    imageQuality: 'Quality',
+    imageQualityDesc: 'Encoding quality for JPEG, WebP and AVIF (1-100).',
+    imageOutputFormat: 'Output format',
+    imageOutputFormatDesc: 'Convert images to this format. AVIF falls back to WebP where the encoder is not available.',
+    imageFormatOriginal: 'Keep original format',
+    skipProcessingBelow: 'Skip small files (KB)',
+    skipProcessingBelowDesc: 'Files smaller than this are uploaded untouched. 0 processes every image.',
+    responsiveImages: 'Responsive images',
+    responsiveImagesDesc: 'Upload narrower copies of each image next to it, e.g. photo@960w.webp, and embed them all with srcset so browsers pick the width they need. Widths at or above the image size are skipped.',
+    responsiveWidths: 'Widths',
+    responsiveWidthsDesc: 'Pixel widths to render, comma separated.',
+    responsiveMarkup: 'Markup',
+    responsiveMarkupDesc: 'A <picture> also stores WebP copies next to a JPEG or PNG fallback.',
+    responsiveMarkupSrcset: '<img srcset>',
+    responsiveMarkupPicture: '<picture> with WebP',
+    responsiveSizes: 'Sizes',
+    responsiveSizesDesc: 'The sizes attribute: how wide the image is displayed at each viewport width.',
+    uploadQueue: 'Upload Queue',
+    uploadConcurrency: 'Parallel uploads',
+    uploadConcurrencyDesc: 'How many pasted or dropped files are uploaded at the same time.',
+    uploadRetries: 'Upload attempts',
+    uploadRetriesDesc: 'Failed uploads are retried with increasing delays, and resume after restarting Obsidian. When every attempt fails, the file is saved to the vault instead.',
+    localizeImages: 'Localize Images',
+    localizeOwnImagesOnly: 'Only my own images',
+    localizeOwnImagesOnlyDesc: 'Only download images served from the custom domain or endpoint of an upload profile. Turn off to download every remote image.',
+    localizeLinkStyle: 'Local link style',
+    localizeLinkStyleDesc: 'How embeds look once the image is back in the vault. Images are saved to the attachment folder.',
+    attachmentTypes: 'Attachment Types',
+    attachmentTypesDesc: 'Which files are uploaded when pasted, dropped or published, matched by MIME type then by extension, and how each is embedded.',
+    attachmentTypeImage: 'Images',
+    attachmentTypeVideo: 'Videos',
+    attachmentTypeAudio: 'Audio',
+    attachmentTypePdf: 'PDF',
+    attachmentTypeDocument: 'Documents and archives',
+    attachmentMimeTypes: 'MIME types, comma separated',
+    attachmentExtensions: 'Extensions, comma separated',
+    renderImage: 'Image embed',
+    renderVideo: 'Video player',
+    renderAudio: 'Audio player',
+    renderIframe: 'Inline frame',
+    renderLink: 'Link',
+    attachmentTemplate: 'Embed template',
+    attachmentTemplateDesc: 'Replaces the embed above when set. Available variables: {tokens}. {size} is the file size; {width} and {height} are the size written in the note, otherwise the pixel size of the uploaded image.',
+    embedPreview: 'Preview: {embed}',
+    linkStyleWikilink: 'Wikilink (![[image.png]])',
+    linkStyleMarkdown: 'Relative Markdown link (![](image.png))',
+    publishConcurrency: 'Parallel uploads when publishing',
+    publishConcurrencyDesc: 'How many images the publish commands upload at the same time.',
+    multipartThreshold: 'Multipart upload above (MB)',
+    multipartThresholdDesc: 'Larger files, such as screen recordings, are streamed from disk in parts. Each part is retried on its own and an interrupted upload resumes where it stopped. Not available for Imgur.',
+    multipartPartSize: 'Part size (MB)',
+    multipartPartSizeDesc: 'Size of each part. S3 requires at least 5 MB; larger parts are used automatically for very large files.',
+    privateBuckets: 'Private Buckets',
+    privateBucketsDesc: 'Profiles with private bucket mode embed r2://bucket/key references instead of public URLs. Reading view swaps them for presigned links when the note is shown.',
+    presignedUrlLifetime: 'Presigned link lifetime (minutes)',
+    presignedUrlLifetimeDesc: 'How long links signed for displaying a note stay valid.',
+    sharedLinkLifetime: 'Shared link lifetime (hours)',
+    sharedLinkLifetimeDesc: 'How long links baked into an exported copy stay valid. S3 allows at most 168 hours (7 days).',
+    privateBucket: 'Private bucket',
+    privateBucketDesc: 'Embed r2://bucket/key references instead of public URLs and presign them when the note is shown. Use this when the bucket is not publicly readable.',
+    embedStyle: 'Image embed style',
+    embedStyleDesc: 'How uploaded images are written into notes. The size and caption set on a wiki embed, e.g. ![[photo.png|Caption|400]], are kept.',
+    embedStyleMarkdown: 'Markdown ![alt|400](url)',
+    embedStyleHtml: 'HTML <img width>',
+    embedStyleFigure: '<figure> with caption',
+    embedStyleCustom: 'Custom template',
+    embedTemplate: 'Embed template',
+    embedTemplateDesc: 'Written for every uploaded image. Available variables: {tokens}',
+    exportWithPresignedLinks: 'Export note with presigned links',
+    exportedWithPresignedLinks: 'Exported a copy with {count} presigned links to {path}. The links expire in {hours} hours.',
+    noReferencesToPresign: 'This note has no private bucket references that could be signed.',
+    sharedCopySuffix: 'shared',
+    pendingUploads: '{count} uploads are waiting in the queue.',
     language: 'Language',
     languageDesc: 'Select the language for the plugin interface.',
-    cloudflareR2Settings: 'CloudFlare R2 Settings',
+    uploadProfiles: 'Upload Profiles',
+    uploadProfilesDesc: 'Each profile has its own storage, credentials, bucket, path and domain. Routing rules decide which profile a note uses.',
+    defaultProfile: 'Default profile',
+    defaultProfileDesc: 'Used for notes that match no routing rule.',
+    editProfile: 'Profile',
+    editProfileDesc: 'Select the profile to edit below.',
+    addProfile: 'Add profile',
+    deleteProfile: 'Delete profile',
+    newProfile: 'New profile',
+    profileName: 'Profile name',
+    profileNameDesc: 'Name shown in profile lists and routing rules.',
+    routingRules: 'Routing Rules',
+    routingRulesDesc: 'Rules are checked from top to bottom and the first match picks the profile. Path rules take a glob such as Blog/**, frontmatter rules take key or key=value, tag rules take #tag.',
+    addRoutingRule: 'Add rule',
+    removeRoutingRule: 'Remove rule',
+    routingRuleTypePath: 'Note path (glob)',
+    routingRuleTypeFrontmatter: 'Frontmatter',
+    routingRuleTypeTag: 'Tag',
+    storageProvider: 'Storage provider',
+    storageProviderDesc: 'Where uploaded files are stored. Each provider has its own credential fields below.',
+    providerSettings: '{provider} Settings',
     cloudflareR2AccessKeyID: 'Cloudflare R2 Access Key ID',
     cloudflareR2AccessKeyIDDesc: 'Your Cloudflare R2 access key ID',
     cloudflareR2SecretAccessKey: 'Cloudflare R2 Secret Access Key',
@@ -196,21 +733,125 @@ const translations: Record<Language, Translations> = {
     cloudflareR2BucketName: 'Cloudflare R2 Bucket Name',
     cloudflareR2BucketNameDesc: 'Your Cloudflare R2 bucket name',
     targetPath: 'Target Path',
-    targetPathDesc: 'The path to store image.\\nSupport {year} {mon} {day} {random} {filename} vars. For example, /{year}/{mon}/{day}/{filename} with uploading pic.jpg, it will store as /2023/06/08/pic.jpg.',
+    targetPathDesc: 'The path to store image. For example, /{year}/{mon}/{day}/{filename} with uploading pic.jpg, it will store as /2023/06/08/pic 20230608120000000.jpg. Tokens: {tokens}. Add a length with {hash:8} or {random:6}, and filters with {basename|slugify}: {filters}.',
+    pathPreview: 'Preview: {key}',
+    pathIssueUnknownToken: 'Unknown token {token}',
+    pathIssueBadArgument: '{token} only takes a positive length, and only on hash, sha256 and random',
+    pathIssueUnknownFilter: 'Unknown filter in {token}',
+    pathIssueUnclosedBrace: 'Unmatched {token} in the path',
     r2devUrlCustomDomain: 'R2.dev URL, Custom Domain Name',
     r2devUrlCustomDomainDesc: 'You can use the R2.dev URL such as https://pub-xxxx.r2.dev here, or custom domain. If the custom domain name is example.com, you can use https://example.com/pic.jpg to access pic.img.',
+    s3AccessKeyID: 'Access Key ID',
+    s3AccessKeyIDDesc: 'Access key ID of your S3 compatible storage',
+    s3SecretAccessKey: 'Secret Access Key',
+    s3SecretAccessKeyDesc: 'Secret access key of your S3 compatible storage',
+    s3Endpoint: 'Endpoint',
+    s3EndpointDesc: 'S3 API endpoint URL (e.g., https://s3.us-east-1.amazonaws.com or https://minio.example.com)',
+    s3Region: 'Region',
+    s3RegionDesc: 'Signing region of the bucket. Defaults to us-east-1, which is also what MinIO expects.',
+    s3BucketName: 'Bucket Name',
+    s3BucketNameDesc: 'Name of the bucket to upload to',
+    customDomain: 'Public URL, Custom Domain Name',
+    customDomainDesc: 'Domain used to build public links to uploaded files. If the custom domain name is example.com, you can use https://example.com/pic.jpg to access pic.jpg.',
+    cacheControl: 'Cache-Control',
+    cacheControlDesc: 'Cache-Control header stored with uploaded files. Leave empty to use the bucket default.',
+    contentDisposition: 'Content-Disposition',
+    contentDispositionDesc: 'inline or attachment. The original file name is added automatically. Leave empty to send no header.',
+    objectMetadata: 'Object metadata',
+    objectMetadataDesc: 'Custom metadata stored as x-amz-meta-* headers, written as name=value pairs separated by ;. Values may use the path template tokens, e.g. {notepath} or {frontmatter.author}.',
+    imgurClientId: 'Imgur Client ID',
+    imgurClientIdDesc: 'Client ID of your registered Imgur application',
   },
   ko: {
     pluginName: 'R2 업로더',
     pluginLoaded: 'R2 업로더 플러그인이 로드되었습니다!',
     pluginReady: 'R2 업로더 준비됨',
-    notConfigured: 'R2 업로더가 설정되지 않았습니다. 설정을 확인해주세요.',
+    notConfigured: '업로드 프로필 "{profile}"이(가) 설정되지 않았습니다. 설정을 확인해주세요.',
     publishPageToR2: '현재 페이지를 R2에 게시',
     publishCurrentFolderToR2: '현재 폴더를 R2에 게시',
     publishEntireVaultToR2: '전체 볼트를 R2에 게시',
     publishSelectedFilesToR2: '선택한 파일을 R2에 게시',
+    previewPublishPageToR2: '현재 페이지 게시 미리보기',
+    previewPublishCurrentFolderToR2: '현재 폴더 게시 미리보기',
+    previewPublishEntireVaultToR2: '전체 볼트 게시 미리보기',
+    revertLastPublish: '마지막 게시 되돌리기',
+    openBucketBrowser: '버킷 브라우저 열기',
+    findOrphans: '버킷에서 사용되지 않는 파일 찾기',
+    localizeCurrentNote: '현재 노트의 이미지를 로컬로 가져오기',
+    localizeCurrentFolder: '현재 폴더의 이미지를 로컬로 가져오기',
+    localizeEntireVault: '전체 볼트의 이미지를 로컬로 가져오기',
     uploading: '업로드 중',
     uploaded: '업로드 완료',
+    reusedUpload: '이미 업로드됨, 재사용',
+    imageProcessingFailed: '이미지를 처리하지 못해 원본을 업로드합니다',
+    responsiveVariantsFailed: '반응형 크기를 만들지 못해 원본만 삽입합니다',
+    metadataStripFailed: '메타데이터를 제거하지 못해 그대로 업로드합니다',
+    uploadSavedLocally: '업로드에 실패해 볼트에 대신 저장했습니다',
+    multipartProgress: '{name} 업로드 중: {percent}%',
+    resumingUploads: '대기 중인 업로드 {count}개를 이어서 진행합니다',
+    saveStateFailed: '플러그인 데이터를 저장하지 못했습니다',
+    publishProgress: 'R2에 게시 중',
+    progressFiles: '노트: {done} / {total}',
+    progressImages: '이미지: {done} / {total}',
+    progressBytes: '전송량: {size}',
+    progressCurrent: '현재: {item}',
+    progressErrors: '오류 {count}개',
+    progressStatusBar: 'R2: 이미지 {done}/{total}',
+    cancelling: '취소하는 중...',
+    close: '닫기',
+    publishCancelled: '게시가 취소되었습니다',
+    publishPreview: '게시 미리보기 (아직 아무것도 업로드되지 않았습니다)',
+    previewScanning: '노트 {count}개를 검사하는 중...',
+    previewNotes: '노트 {total}개 중 {changed}개가 변경됩니다',
+    previewUploads: '이미지 {count}개가 업로드됩니다 ({size})',
+    previewDownloads: '외부 이미지 {count}개를 다운로드하여 업로드합니다',
+    previewUnresolved: '이미지 {count}개를 찾을 수 없습니다',
+    previewNothing: '게시할 항목이 없습니다',
+    previewLocal: '업로드',
+    previewExternal: '다운로드',
+    previewNotFound: '찾을 수 없음',
+    previewProfile: '프로필: {profile}',
+    publishNow: '지금 게시',
+    revertPublishTitle: '게시 되돌리기',
+    revertPublishDesc: '{date}에 {scope}에서 게시한 노트 {notes}개의 로컬 임베드 {count}개를 복원합니다.',
+    deleteUploadedObjects: '업로드한 파일 삭제',
+    deleteUploadedObjectsDesc: '이번 게시에서 업로드한 파일 {count}개도 삭제합니다. 다른 노트에서 아직 링크된 파일은 유지합니다.',
+    revert: '되돌리기',
+    noPublishToRevert: '되돌릴 게시 기록이 없습니다',
+    revertFinished: '노트 {notes}개에서 임베드 {restored}개를 복원했습니다',
+    revertSkipped: '게시 후 변경된 임베드 {count}개는 그대로 두었습니다',
+    objectsDeleted: '파일 {count}개를 삭제했습니다',
+    objectsDeleteFailed: '파일 {count}개를 삭제하지 못했습니다',
+    objectsStillLinked: '노트에서 아직 링크 중인 파일 {count}개는 남겨 두었습니다',
+    bucketBrowser: '버킷 브라우저',
+    bucketPrefix: '접두사',
+    refresh: '새로고침',
+    loadMore: '더 보기',
+    loading: '불러오는 중...',
+    objectsLoaded: '파일 {count}개',
+    noObjects: '이 접두사 아래에 파일이 없습니다',
+    listFailed: '파일 목록을 가져오지 못했습니다',
+    copyEmbed: '마크다운 임베드 복사',
+    insertAtCursor: '커서 위치에 삽입',
+    openObject: '열기',
+    delete: '삭제',
+    copiedToClipboard: '클립보드에 복사했습니다',
+    deleteObjectConfirm: '버킷에서 "{key}"을(를) 삭제할까요? 이 파일을 링크한 노트에서는 이미지가 깨져 보입니다.',
+    deleteFailed: '삭제 실패',
+    deleted: '삭제됨',
+    scanningForOrphans: '노트와 버킷을 검사하는 중...',
+    orphanReport: '사용되지 않거나 없는 파일',
+    orphansFound: '"{prefix}" 아래의 파일 {count}개({size})를 사용하는 노트가 없습니다',
+    noOrphans: '"{prefix}" 아래의 모든 파일이 노트에서 사용되고 있습니다',
+    missingObjects: '임베드 {count}개가 더 이상 존재하지 않는 파일을 가리킵니다',
+    deleteSelected: '선택 항목 삭제 ({count})',
+    deleteObjectsConfirm: '버킷에서 파일 {count}개를 삭제할까요? 되돌릴 수 없습니다.',
+    cleanupFailed: '정리하지 못함',
+    attachmentsCleanedUp: '로컬 첨부 파일 {count}개를 정리했습니다',
+    attachmentsNotRestored: '첨부 파일 {count}개는 휴지통으로 이동되어 휴지통에서 직접 복원해야 합니다',
+    startingLocalize: '{scope}의 노트 {count}개에 있는 원격 이미지를 다운로드하는 중',
+    localizeFinished: '노트 {notes}개에 이미지 {count}개를 다운로드했습니다',
+    localizeFailed: '이미지 {count}개를 다운로드하지 못했습니다',
     uploadFailed: '업로드 실패',
     downloadExternalImage: '외부 이미지 다운로드 중',
     noActiveMarkdownView: '활성 마크다운 뷰를 찾을 수 없습니다.',
@@ -245,18 +886,148 @@ const translations: Record<Language, Translations> = {
     useImageNameAsAltText: '이미지 이름을 Alt 텍스트로 사용',
     useImageNameAsAltTextDesc: "이미지 이름을 Alt 텍스트로 사용할지 여부. '-'와 '_'는 공백으로 대체됩니다.",
     updateOriginalDocument: '원본 문서 업데이트',
-    updateOriginalDocumentDesc: '내부 링크를 저장소 링크로 교체할지 여부.',
+    updateOriginalDocumentDesc: '내부 링크를 저장소 링크로 교체할지 여부. 끄면 게시할 때 노트를 그대로 두고 결과를 클립보드에 복사합니다.',
     ignoreNoteProperties: '노트 속성 무시',
-    ignoreNotePropertiesDesc: '클립보드에 복사할 때 노트 속성을 무시할지 여부. 원본 노트에는 영향을 주지 않습니다.',
+    ignoreNotePropertiesDesc: '클립보드나 내보내기 폴더에 복사할 때 노트 속성을 무시할지 여부. 원본 노트에는 영향을 주지 않습니다.',
+    publishExportFolder: '내보내기 폴더',
+    publishExportFolderDesc: '원본 문서를 업데이트하지 않을 때 게시한 노트를 폴더 구조를 유지한 채 이 폴더에도 저장합니다. 비워 두면 노트 하나를 게시할 때만 클립보드에 복사합니다.',
+    publishCopyNeedsExportFolder: '원본을 업데이트하지 않고 여러 노트를 게시하려면 내보내기 폴더를 설정하세요.',
+    publishedCopyToClipboard: '게시한 노트를 클립보드에 복사했습니다. 원본 노트는 변경하지 않았습니다.',
+    publishedCopiesExported: '게시한 노트 {count}개를 {folder}에 저장했습니다.',
     showProgressModal: '진행 상황 모달 표시',
     showProgressModalDesc: '이미지 업로드 시 상세 진행 상황을 모달 대화상자로 표시합니다 (3초 후 자동 닫힘). 비활성화하면 더 간단한 상태 표시기를 사용합니다.',
     confirmBeforeUpload: '업로드 전 확인',
     confirmBeforeUploadDesc: '이미지 업로드 전 확인 대화상자를 표시합니다.',
     downloadExternalImages: '외부 이미지 다운로드',
     downloadExternalImagesDesc: '외부 이미지(http/https URL)를 다운로드하여 R2에 업로드합니다. 활성화하면 외부 이미지 URL이 다운로드되어 R2 URL로 교체됩니다.',
+    attachmentCleanup: '로컬 첨부 파일 정리',
+    attachmentCleanupDesc: '게시 후 임베드가 교체되었고 다른 노트에서 링크하지 않는 로컬 이미지를 옮깁니다.',
+    cleanupKeep: '그대로 두기',
+    cleanupSystemTrash: '시스템 휴지통으로 이동',
+    cleanupObsidianTrash: 'Obsidian 휴지통(.trash)으로 이동',
+    cleanupArchive: '보관 폴더로 이동',
+    overwritePolicy: '키가 이미 있을 때',
+    overwritePolicyDesc: '경로 템플릿이 버킷에 이미 있는 키를 만들 때의 동작 (예: /{filename} 또는 고정된 이름). 덮어쓰기 외의 옵션은 업로드할 때마다 버킷을 확인합니다.',
+    overwriteReplace: '기존 파일 덮어쓰기',
+    overwriteReuse: '기존 파일의 URL 재사용',
+    overwriteSuffix: '접미사 추가 (-1, -2...)',
+    overwriteFail: '업로드 실패 처리',
+    attachmentArchiveFolder: '보관 폴더',
+    attachmentArchiveFolderDesc: '정리된 첨부 파일은 이 폴더 안에서 원래 폴더 구조를 유지하며, 게시를 되돌리면 원래 위치로 돌아옵니다.',
+    deduplicateUploads: '중복 업로드 건너뛰기',
+    deduplicateUploadsDesc: '업로드한 파일의 SHA-256을 기억해 같은 프로필로 같은 내용을 다시 업로드하면 기존 URL을 재사용합니다. 저장 경로에 {hash} 또는 {sha256}을 사용하면 내용 기준으로 객체 이름을 정할 수 있습니다.',
+    verifyDeduplicatedUploads: '재사용 업로드 확인',
+    verifyDeduplicatedUploadsDesc: 'URL을 재사용하기 전에 HEAD 요청으로 버킷에 객체가 아직 있는지 확인합니다. 없으면 다시 업로드합니다.',
+    clearUploadIndex: '업로드 인덱스 초기화',
+    clearUploadIndexDesc: '업로드한 파일 {count}개를 기억하고 있습니다. 초기화하면 다음 업로드 때 새 객체를 만듭니다.',
+    clear: '초기화',
+    imageProcessing: '이미지 처리',
+    stripMetadata: '이미지 메타데이터 제거',
+    stripMetadataDesc: '업로드 전에 JPEG, PNG, WebP, HEIC 이미지에서 EXIF, XMP, IPTC 데이터(GPS 위치, 카메라 일련번호, 주석 등)를 제거합니다. 픽셀은 다시 인코딩하지 않습니다.',
+    keepImageOrientation: '방향 정보 유지',
+    keepImageOrientationDesc: '회전된 사진이 바르게 보이도록 EXIF 방향 정보만 남깁니다.',
+    processImages: '업로드 전 이미지 처리',
+    processImagesDesc: 'PNG, JPEG, WebP, BMP, AVIF 이미지를 업로드 전에 크기 조정하고 다시 인코딩합니다. GIF와 SVG는 항상 그대로 업로드합니다.',
+    maxImageWidth: '최대 너비',
+    maxImageWidthDesc: '이보다 넓은 이미지는 비율을 유지하며 축소합니다. 0이면 제한이 없습니다.',
+    maxImageHeight: '최대 높이',
+    maxImageHeightDesc: '이보다 높은 이미지는 비율을 유지하며 축소합니다. 0이면 제한이 없습니다.',
+    imageQuality: '품질',
+    imageQualityDesc: 'JPEG, WebP, AVIF 인코딩 품질 (1-100).',
+    imageOutputFormat: '출력 형식',
+    imageOutputFormatDesc: '이미지를 이 형식으로 변환합니다. AVIF 인코더를 사용할 수 없으면 WebP로 대체합니다.',
+    imageFormatOriginal: '원본 형식 유지',
+    skipProcessingBelow: '작은 파일 건너뛰기 (KB)',
+    skipProcessingBelowDesc: '이보다 작은 파일은 그대로 업로드합니다. 0이면 모든 이미지를 처리합니다.',
+    responsiveImages: '반응형 이미지',
+    responsiveImagesDesc: '이미지마다 더 작은 사본(예: photo@960w.webp)을 같은 위치에 업로드하고 srcset으로 모두 삽입해 브라우저가 필요한 크기를 고르게 합니다. 이미지보다 크거나 같은 너비는 건너뜁니다.',
+    responsiveWidths: '너비',
+    responsiveWidthsDesc: '만들 너비(픽셀), 쉼표로 구분합니다.',
+    responsiveMarkup: '마크업',
+    responsiveMarkupDesc: '<picture>는 JPEG 또는 PNG 대체 이미지와 함께 WebP 사본도 저장합니다.',
+    responsiveMarkupSrcset: '<img srcset>',
+    responsiveMarkupPicture: 'WebP를 포함한 <picture>',
+    responsiveSizes: 'Sizes',
+    responsiveSizesDesc: 'sizes 속성: 화면 너비별로 이미지가 표시되는 너비입니다.',
+    uploadQueue: '업로드 대기열',
+    uploadConcurrency: '동시 업로드 수',
+    uploadConcurrencyDesc: '붙여넣거나 끌어다 놓은 파일을 동시에 몇 개까지 업로드할지 정합니다.',
+    uploadRetries: '업로드 시도 횟수',
+    uploadRetriesDesc: '실패한 업로드는 점점 늘어나는 간격으로 다시 시도하며 Obsidian을 다시 시작해도 이어서 진행합니다. 모든 시도가 실패하면 파일을 볼트에 저장합니다.',
+    localizeImages: '이미지 로컬화',
+    localizeOwnImagesOnly: '내 이미지만',
+    localizeOwnImagesOnlyDesc: '업로드 프로필의 사용자 지정 도메인이나 엔드포인트에서 제공되는 이미지만 다운로드합니다. 끄면 모든 원격 이미지를 다운로드합니다.',
+    localizeLinkStyle: '로컬 링크 형식',
+    localizeLinkStyleDesc: '이미지를 볼트로 가져온 뒤의 임베드 형식. 이미지는 첨부 파일 폴더에 저장됩니다.',
+    attachmentTypes: '첨부 파일 형식',
+    attachmentTypesDesc: '붙여넣기, 끌어다 놓기, 게시할 때 업로드할 파일과 임베드 형식. MIME 형식으로 먼저 찾고 없으면 확장자로 찾습니다.',
+    attachmentTypeImage: '이미지',
+    attachmentTypeVideo: '동영상',
+    attachmentTypeAudio: '오디오',
+    attachmentTypePdf: 'PDF',
+    attachmentTypeDocument: '문서 및 압축 파일',
+    attachmentMimeTypes: 'MIME 형식 (쉼표로 구분)',
+    attachmentExtensions: '확장자 (쉼표로 구분)',
+    renderImage: '이미지 임베드',
+    renderVideo: '동영상 플레이어',
+    renderAudio: '오디오 플레이어',
+    renderIframe: '인라인 프레임',
+    renderLink: '링크',
+    attachmentTemplate: '삽입 템플릿',
+    attachmentTemplateDesc: '설정하면 위의 임베드 대신 사용합니다. 사용 가능한 변수: {tokens}. {size}는 파일 크기이고, {width}와 {height}는 노트에 적은 크기, 없으면 업로드한 이미지의 픽셀 크기입니다.',
+    embedPreview: '미리보기: {embed}',
+    linkStyleWikilink: '위키링크 (![[image.png]])',
+    linkStyleMarkdown: '상대 경로 마크다운 링크 (![](image.png))',
+    publishConcurrency: '게시할 때 동시 업로드 수',
+    publishConcurrencyDesc: '게시 명령이 동시에 업로드할 이미지 수.',
+    multipartThreshold: '멀티파트 업로드 기준 (MB)',
+    multipartThresholdDesc: '이보다 큰 파일(화면 녹화 등)은 디스크에서 조각 단위로 읽어 업로드합니다. 조각마다 따로 재시도하고, 중단된 업로드는 멈춘 지점부터 이어서 진행합니다. Imgur에서는 사용할 수 없습니다.',
+    multipartPartSize: '조각 크기 (MB)',
+    multipartPartSizeDesc: '각 조각의 크기. S3는 최소 5MB가 필요하며, 아주 큰 파일은 자동으로 더 큰 조각을 사용합니다.',
+    privateBuckets: '비공개 버킷',
+    privateBucketsDesc: '비공개 버킷 모드를 켠 프로필은 공개 URL 대신 r2://bucket/key 참조를 삽입합니다. 읽기 보기에서 노트를 표시할 때 서명된 링크로 바꿉니다.',
+    presignedUrlLifetime: '서명된 링크 유효 시간 (분)',
+    presignedUrlLifetimeDesc: '노트를 표시할 때 서명한 링크가 유효한 시간.',
+    sharedLinkLifetime: '공유 링크 유효 시간 (시간)',
+    sharedLinkLifetimeDesc: '내보낸 사본에 들어가는 링크가 유효한 시간. S3는 최대 168시간(7일)까지 허용합니다.',
+    privateBucket: '비공개 버킷',
+    privateBucketDesc: '공개 URL 대신 r2://bucket/key 참조를 삽입하고 노트를 표시할 때 서명합니다. 버킷을 공개로 읽을 수 없을 때 사용하세요.',
+    embedStyle: '이미지 삽입 형식',
+    embedStyleDesc: '업로드한 이미지를 노트에 쓰는 형식. ![[photo.png|캡션|400]]처럼 위키 임베드에 지정한 크기와 캡션은 유지됩니다.',
+    embedStyleMarkdown: '마크다운 ![alt|400](url)',
+    embedStyleHtml: 'HTML <img width>',
+    embedStyleFigure: '캡션이 있는 <figure>',
+    embedStyleCustom: '사용자 정의 템플릿',
+    embedTemplate: '삽입 템플릿',
+    embedTemplateDesc: '업로드한 이미지마다 이 템플릿으로 씁니다. 사용 가능한 변수: {tokens}',
+    exportWithPresignedLinks: '서명된 링크로 노트 내보내기',
+    exportedWithPresignedLinks: '서명된 링크 {count}개가 들어간 사본을 {path}에 내보냈습니다. 링크는 {hours}시간 후 만료됩니다.',
+    noReferencesToPresign: '이 노트에는 서명할 수 있는 비공개 버킷 참조가 없습니다.',
+    sharedCopySuffix: '공유',
+    pendingUploads: '대기열에 업로드 {count}개가 남아 있습니다.',
     language: '언어',
     languageDesc: '플러그인 인터페이스의 언어를 선택합니다.',
-    cloudflareR2Settings: 'CloudFlare R2 설정',
+    uploadProfiles: '업로드 프로필',
+    uploadProfilesDesc: '프로필마다 저장소, 인증 정보, 버킷, 경로, 도메인을 따로 가집니다. 라우팅 규칙으로 노트가 사용할 프로필을 정합니다.',
+    defaultProfile: '기본 프로필',
+    defaultProfileDesc: '어떤 라우팅 규칙에도 맞지 않는 노트에 사용합니다.',
+    editProfile: '프로필',
+    editProfileDesc: '아래에서 편집할 프로필을 선택합니다.',
+    addProfile: '프로필 추가',
+    deleteProfile: '프로필 삭제',
+    newProfile: '새 프로필',
+    profileName: '프로필 이름',
+    profileNameDesc: '프로필 목록과 라우팅 규칙에 표시되는 이름.',
+    routingRules: '라우팅 규칙',
+    routingRulesDesc: '규칙은 위에서부터 확인하며 처음 일치하는 규칙이 프로필을 정합니다. 경로 규칙은 Blog/** 같은 glob, frontmatter 규칙은 key 또는 key=value, 태그 규칙은 #tag 형식입니다.',
+    addRoutingRule: '규칙 추가',
+    removeRoutingRule: '규칙 삭제',
+    routingRuleTypePath: '노트 경로 (glob)',
+    routingRuleTypeFrontmatter: 'Frontmatter',
+    routingRuleTypeTag: '태그',
+    storageProvider: '저장소 제공자',
+    storageProviderDesc: '업로드한 파일을 저장할 곳입니다. 제공자마다 아래에 필요한 인증 정보 항목이 표시됩니다.',
+    providerSettings: '{provider} 설정',
     cloudflareR2AccessKeyID: 'Cloudflare R2 액세스 키 ID',
     cloudflareR2AccessKeyIDDesc: 'Cloudflare R2 액세스 키 ID',
     cloudflareR2SecretAccessKey: 'Cloudflare R2 시크릿 액세스 키',
@@ -266,50 +1037,225 @@ const translations: Record<Language, Translations> = {
     cloudflareR2BucketName: 'Cloudflare R2 버킷 이름',
     cloudflareR2BucketNameDesc: 'Cloudflare R2 버킷 이름',
     targetPath: '저장 경로',
-    targetPathDesc: '이미지를 저장할 경로.\\n{year} {mon} {day} {random} {filename} 변수를 지원합니다. 예를 들어, /{year}/{mon}/{day}/{filename}로 설정하고 pic.jpg를 업로드하면 /2023/06/08/pic.jpg로 저장됩니다.',
+    targetPathDesc: '이미지를 저장할 경로. 예를 들어, /{year}/{mon}/{day}/{filename}로 설정하고 pic.jpg를 업로드하면 /2023/06/08/pic 20230608120000000.jpg로 저장됩니다. 변수: {tokens}. {hash:8}, {random:6}처럼 길이를 지정하고 {basename|slugify}처럼 필터를 붙일 수 있습니다: {filters}.',
+    pathPreview: '미리보기: {key}',
+    pathIssueUnknownToken: '알 수 없는 변수 {token}',
+    pathIssueBadArgument: '{token}: 길이는 hash, sha256, random에만 양수로 지정할 수 있습니다',
+    pathIssueUnknownFilter: '{token}에 알 수 없는 필터가 있습니다',
+    pathIssueUnclosedBrace: '경로에 짝이 맞지 않는 {token}이 있습니다',
     r2devUrlCustomDomain: 'R2.dev URL, 사용자 정의 도메인 이름',
     r2devUrlCustomDomainDesc: '여기에 https://pub-xxxx.r2.dev와 같은 R2.dev URL을 사용하거나 사용자 정의 도메인을 사용할 수 있습니다. 사용자 정의 도메인 이름이 example.com인 경우 https://example.com/pic.jpg를 사용하여 pic.img에 액세스할 수 있습니다.',
+    s3AccessKeyID: '액세스 키 ID',
+    s3AccessKeyIDDesc: 'S3 호환 저장소의 액세스 키 ID',
+    s3SecretAccessKey: '시크릿 액세스 키',
+    s3SecretAccessKeyDesc: 'S3 호환 저장소의 시크릿 액세스 키',
+    s3Endpoint: '엔드포인트',
+    s3EndpointDesc: 'S3 API 엔드포인트 URL (예: https://s3.us-east-1.amazonaws.com 또는 https://minio.example.com)',
+    s3Region: '리전',
+    s3RegionDesc: '버킷의 서명 리전. 기본값은 us-east-1이며 MinIO도 이 값을 사용합니다.',
+    s3BucketName: '버킷 이름',
+    s3BucketNameDesc: '업로드할 버킷 이름',
+    customDomain: '공개 URL, 사용자 정의 도메인 이름',
+    customDomainDesc: '업로드한 파일의 공개 링크를 만들 때 사용할 도메인. 사용자 정의 도메인 이름이 example.com인 경우 https://example.com/pic.jpg를 사용하여 pic.jpg에 액세스할 수 있습니다.',
+    cacheControl: 'Cache-Control',
+    cacheControlDesc: '업로드한 파일에 저장할 Cache-Control 헤더. 비워 두면 버킷 기본값을 사용합니다.',
+    contentDisposition: 'Content-Disposition',
+    contentDispositionDesc: 'inline 또는 attachment. 원래 파일 이름이 자동으로 추가됩니다. 비워 두면 헤더를 보내지 않습니다.',
+    objectMetadata: '객체 메타데이터',
+    objectMetadataDesc: 'x-amz-meta-* 헤더로 저장할 사용자 정의 메타데이터. name=value 쌍을 ;로 구분해 입력합니다. 값에는 {notepath}, {frontmatter.author} 같은 경로 템플릿 토큰을 쓸 수 있습니다.',
+    imgurClientId: 'Imgur 클라이언트 ID',
+    imgurClientIdDesc: '등록한 Imgur 애플리케이션의 클라이언트 ID',
   },
 };
 
 interface R2UploaderSettings {
-  // CloudFlare R2 설정
-  accessKeyId: string;
-  secretAccessKey: string;
-  endpoint: string;
-  bucketName: string;
-  targetPath: string;
-  customDomainName: string;
+  // 업로드 프로필
+  profiles: UploadProfile[];
+  defaultProfileId: string;
+  routingRules: RoutingRule[];
 
   // 업로드 설정
   useImageNameAsAltText: boolean;
   updateOriginalDocument: boolean;
   ignoreNoteProperties: boolean;
+  publishExportFolder: string;
   showProgressModal: boolean;
   confirmBeforeUpload: boolean;
   downloadExternalImages: boolean;
+  attachmentCleanup: AttachmentCleanup;
+  overwritePolicy: OverwritePolicy;
+  attachmentArchiveFolder: string;
+  deduplicateUploads: boolean;
+  verifyDeduplicatedUploads: boolean;
   language: Language;
+
+  // 이미지 처리 설정
+  stripMetadata: boolean;
+  keepImageOrientation: boolean;
+  processImages: boolean;
+  maxImageWidth: number;
+  maxImageHeight: number;
+  imageQuality: number;
+  imageOutputFormat: ImageOutputFormat;
+  skipProcessingBelowKB: number;
+  responsiveImages: boolean;
+  responsiveWidths: string;
+  responsiveMarkup: ResponsiveMarkup;
+  responsiveSizes: string;
+
+  // 첨부 파일 형식 설정
+  attachmentTypes: AttachmentType[];
+
+  // 이미지 로컬화 설정
+  localizeOwnImagesOnly: boolean;
+  localizeLinkStyle: LocalLinkStyle;
+
+  // 업로드 대기열 설정
+  uploadConcurrency: number;
+  uploadRetries: number;
+  publishConcurrency: number;
+  multipartThresholdMB: number;
+  multipartPartSizeMB: number;
+
+  // 비공개 버킷 설정
+  presignedUrlLifetimeMinutes: number;
+  sharedLinkLifetimeHours: number;
+
+  // 내부 상태 (설정 탭에 표시되지 않음)
+  uploadIndex: Record<string, UploadIndexEntry>;
+  // `UploadResult.deleteToken` by `profileId:key`
+  deleteTokens: Record<string, string>;
+  uploadQueue: UploadJob[];
+  publishJournals: PublishJournal[];
 }
 
+// Settings saved before profiles existed kept a single set of credentials at the top level
+type LegacySettings = Partial<Pick<ProviderSettings, ProviderTextSetting>> & {
+  provider?: ProviderId;
+};
+
+const LEGACY_PROFILE_KEYS: ProviderTextSetting[] = [
+  'accessKeyId',
+  'secretAccessKey',
+  'endpoint',
+  'bucketName',
+  'targetPath',
+  'customDomainName',
+  'region',
+  'imgurClientId',
+];
+
 const DEFAULT_SETTINGS: R2UploaderSettings = {
-  // CloudFlare R2 설정
-  accessKeyId: '',
-  secretAccessKey: '',
-  endpoint: '',
-  bucketName: '',
-  targetPath: '/{year}/{mon}/{day}/{filename}',
-  customDomainName: '',
+  // 업로드 프로필
+  profiles: [],
+  defaultProfileId: 'default',
+  routingRules: [],
 
   // 업로드 설정
   useImageNameAsAltText: true,
   updateOriginalDocument: true,
   ignoreNoteProperties: true,
+  publishExportFolder: '',
   showProgressModal: true,
   confirmBeforeUpload: true,
   downloadExternalImages: false,
+  attachmentCleanup: 'keep',
+  overwritePolicy: 'overwrite',
+  attachmentArchiveFolder: 'Archive/Attachments',
+  deduplicateUploads: true,
+  verifyDeduplicatedUploads: false,
   language: 'en',
+
+  // 이미지 처리 설정
+  stripMetadata: false,
+  keepImageOrientation: true,
+  processImages: false,
+  maxImageWidth: 1920,
+  maxImageHeight: 0,
+  imageQuality: 85,
+  imageOutputFormat: 'original',
+  skipProcessingBelowKB: 100,
+  responsiveImages: false,
+  responsiveWidths: '480, 960, 1920',
+  responsiveMarkup: 'picture',
+  responsiveSizes: '(max-width: 960px) 100vw, 960px',
+
+  // 첨부 파일 형식 설정
+  attachmentTypes: DEFAULT_ATTACHMENT_TYPES,
+
+  // 이미지 로컬화 설정
+  localizeOwnImagesOnly: true,
+  localizeLinkStyle: 'wikilink',
+
+  // 업로드 대기열 설정
+  uploadConcurrency: 3,
+  uploadRetries: 5,
+  publishConcurrency: 4,
+  multipartThresholdMB: 50,
+  multipartPartSizeMB: 8,
+
+  // 비공개 버킷 설정
+  presignedUrlLifetimeMinutes: 60,
+  sharedLinkLifetimeHours: 168,
+
+  // 내부 상태
+  uploadIndex: {},
+  deleteTokens: {},
+  uploadQueue: [],
+  publishJournals: [],
 };
 
+interface EmbedOptions {
+  mimeType?: string;
+  altText?: string;
+  title?: string;
+  // `400` or `400x300`
+  size?: string;
+  // File size for the `{size}` template variable
+  bytes?: number;
+  // Pixel size of the uploaded image, for `{width}` and `{height}` when the embed gives none
+  dimensions?: { width: number; height: number };
+  // Stored widths of a responsive image, written as `<img srcset>` or `<picture>`
+  variants?: UploadedVariant[];
+  // Images follow this profile's embed style, plain Markdown without one
+  profile?: UploadProfile;
+}
+
+interface UploadOutcome {
+  url: string;
+  key: string;
+  // Served from the upload index instead of being uploaded
+  reused: boolean;
+  // Bytes of the file that was handed in, before processing
+  size: number;
+  // Every stored width when responsive images are on, the original included
+  variants?: UploadedVariant[];
+  // Pixel size of the image as uploaded, unknown for large files and other media
+  dimensions?: { width: number; height: number };
+}
+
+// A note being published or localized, read from and written back to the editor or the vault
+interface PublishTarget {
+  file: TFile;
+  read(): Promise<string>;
+  write(content: string): Promise<void>;
+}
+
+// State shared by every note of one publish run
+interface PublishSession {
+  progress: PublishProgress;
+  signal: AbortSignal;
+  // Bounds image uploads across all notes of the run
+  limit: Limiter;
+  // Uploads started in this run, keyed by profile and source
+  uploads: Map<string, Promise<UploadOutcome | null>>;
+  journal: PublishJournal;
+  // Content written to each note, and the local attachments whose embeds it replaced
+  written: Map<string, string>;
+  replacedAttachments: Set<TFile>;
+  update(): void;
+}
+
 export default class R2UploaderPlugin extends Plugin {
   settings: R2UploaderSettings;
   
@@ -327,39 +1273,25 @@ export default class R2UploaderPlugin extends Plugin {
     
     return text;
   }
-  private r2Uploader: R2Uploader | null = null;
-  private static readonly extensionMimeMap: Record<string, string> = {
-    png: 'image/png',
-    jpg: 'image/jpeg',
-    jpeg: 'image/jpeg',
-    gif: 'image/gif',
-    webp: 'image/webp',
-    svg: 'image/svg+xml',
-    bmp: 'image/bmp',
-    tiff: 'image/tiff',
-    tif: 'image/tiff',
-    avif: 'image/avif',
-    heic: 'image/heic',
-    heif: 'image/heif',
-    mp4: 'video/mp4',
-    mov: 'video/quicktime',
-    m4v: 'video/x-m4v',
-    webm: 'video/webm',
-    ogg: 'video/ogg',
-    ogv: 'video/ogg',
-    mkv: 'video/x-matroska',
-    avi: 'video/x-msvideo',
-    mpg: 'video/mpeg',
-    mpeg: 'video/mpeg',
-    mpe: 'video/mpeg',
-    m2v: 'video/mpeg',
-    '3gp': 'video/3gpp',
-    '3g2': 'video/3gpp2',
-  };
+  private uploaders = new Map<string, Uploader | null>();
+  private presignedUrls = new PresignedUrlCache();
+  uploadIndex: UploadIndex;
+  private uploadQueue: UploadQueue;
+  private statusBarItemEl: HTMLElement;
+  private publishHistory: PublishHistory;
 
   async onload() {
     await this.loadSettings();
-    this.setupR2Uploader();
+    this.uploadQueue = new UploadQueue(
+      this.settings.uploadQueue,
+      {
+        run: job => this.runUploadJob(job),
+        fail: (job, error) => this.failUploadJob(job, error),
+        persist: () => this.saveState(),
+      },
+      this.uploadQueueOptions()
+    );
+    this.setupUploader();
 
     // This creates an icon in the left ribbon.
     const ribbonIconEl = this.addRibbonIcon(
@@ -374,8 +1306,8 @@ export default class R2UploaderPlugin extends Plugin {
     ribbonIconEl.addClass('r2-uploader-ribbon-class');
 
     // This adds a status bar item to the bottom of the app. Does not work on mobile apps.
-    const statusBarItemEl = this.addStatusBarItem();
-    statusBarItemEl.setText(this.t('pluginReady'));
+    this.statusBarItemEl = this.addStatusBarItem();
+    this.statusBarItemEl.setText(this.t('pluginReady'));
 
     // This adds simple commands that can be triggered anywhere
     this.addCommand({
@@ -402,6 +1334,100 @@ export default class R2UploaderPlugin extends Plugin {
       },
     });
 
+    this.registerView(VIEW_TYPE_BUCKET_BROWSER, leaf => new BucketBrowserView(leaf, this));
+
+    this.addCommand({
+      id: 'open-bucket-browser',
+      name: this.t('openBucketBrowser'),
+      callback: () => {
+        this.openBucketBrowser();
+      },
+    });
+
+    this.addCommand({
+      id: 'localize-current-note',
+      name: this.t('localizeCurrentNote'),
+      callback: () => {
+        const targets = this.currentNoteTargets();
+        if (targets) this.localizeImages(targets, 'current note');
+      },
+    });
+
+    this.addCommand({
+      id: 'localize-current-folder',
+      name: this.t('localizeCurrentFolder'),
+      callback: () => {
+        const targets = this.currentFolderTargets();
+        if (targets) this.localizeImages(targets, 'current folder');
+      },
+    });
+
+    this.addCommand({
+      id: 'localize-vault',
+      name: this.t('localizeEntireVault'),
+      callback: () => {
+        const targets = this.vaultTargets();
+        if (targets) this.localizeImages(targets, 'entire vault');
+      },
+    });
+
+    this.addCommand({
+      id: 'find-orphaned-files',
+      name: this.t('findOrphans'),
+      callback: () => {
+        this.findOrphans();
+      },
+    });
+
+    this.addCommand({
+      id: 'export-with-presigned-links',
+      name: this.t('exportWithPresignedLinks'),
+      callback: () => {
+        this.exportWithPresignedLinks();
+      },
+    });
+
+    // Private bucket references are signed each time a note is rendered
+    this.registerMarkdownPostProcessor(el => this.presignRenderedReferences(el));
+
+    this.addCommand({
+      id: 'revert-last-publish',
+      name: this.t('revertLastPublish'),
+      callback: () => {
+        const journal = this.publishHistory.last;
+        if (!journal) {
+          new Notice(this.t('noPublishToRevert'));
+          return;
+        }
+        new RevertPublishModal(this.app, this, journal).open();
+      },
+    });
+
+    // Dry runs of the publish commands, they only report what would be uploaded
+    this.addCommand({
+      id: 'preview-publish-page-to-r2',
+      name: this.t('previewPublishPageToR2'),
+      callback: () => {
+        this.publishPageToR2(true);
+      },
+    });
+
+    this.addCommand({
+      id: 'preview-publish-current-folder-to-r2',
+      name: this.t('previewPublishCurrentFolderToR2'),
+      callback: () => {
+        this.publishCurrentFolderToR2(true);
+      },
+    });
+
+    this.addCommand({
+      id: 'preview-publish-vault-to-r2',
+      name: this.t('previewPublishEntireVaultToR2'),
+      callback: () => {
+        this.publishVaultToR2(true);
+      },
+    });
+
     // Add context menu items for publishing from the file explorer
     // Single file/folder context menu
     this.registerEvent(
@@ -452,38 +1478,268 @@ export default class R2UploaderPlugin extends Plugin {
     this.registerEvent(
       this.app.workspace.on('editor-drop', this.handleDropEvent.bind(this))
     );
+
+    // Keep queued uploads attached to their note when it moves
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => {
+        if (!(file instanceof TFile)) return;
+        const queued = this.uploadQueue.renameNote(oldPath, file.path);
+        const journaled = this.publishHistory.renameNote(oldPath, file.path);
+        if (!queued && !journaled) return;
+        void this.saveState().catch(error =>
+          new Notice(`${this.t('saveStateFailed')}: ${error.message}`)
+        );
+      })
+    );
+
+    // Resume uploads left over from the previous session
+    this.app.workspace.onLayoutReady(() => {
+      if (this.uploadQueue.size > 0) {
+        new Notice(this.t('resumingUploads', { count: this.uploadQueue.size.toString() }));
+      }
+      this.uploadQueue.start();
+    });
   }
 
-  onunload() {}
+  onunload() {
+    this.uploadQueue.stop();
+  }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    const data = await this.loadData();
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+    this.settings.routingRules = [...this.settings.routingRules];
+    this.settings.uploadIndex = { ...this.settings.uploadIndex };
+    this.uploadIndex = new UploadIndex(this.settings.uploadIndex);
+    this.settings.deleteTokens = { ...this.settings.deleteTokens };
+    this.settings.uploadQueue = [...this.settings.uploadQueue];
+    this.settings.publishJournals = [...this.settings.publishJournals];
+    // Keep the user's edits to known types and add built-in types introduced since
+    const savedTypes: AttachmentType[] = this.settings.attachmentTypes ?? [];
+    this.settings.attachmentTypes = [
+      ...DEFAULT_ATTACHMENT_TYPES.map(type => ({
+        ...type,
+        ...savedTypes.find(saved => saved.id === type.id),
+      })),
+      ...savedTypes.filter(saved => !DEFAULT_ATTACHMENT_TYPES.some(type => type.id === saved.id)),
+    ].map(type => ({
+      ...type,
+      mimeTypes: [...type.mimeTypes],
+      extensions: [...type.extensions],
+      template: type.template ?? '',
+    }));
+    this.publishHistory = new PublishHistory(this.settings.publishJournals);
+
+    if (!this.settings.profiles || this.settings.profiles.length === 0) {
+      // Move the legacy top level credentials into the default profile
+      const legacy: LegacySettings = data ?? {};
+      const stored: R2UploaderSettings & LegacySettings = this.settings;
+      const profile: UploadProfile = { ...DEFAULT_PROFILE, id: 'default', name: 'Default' };
+      if (legacy.provider) profile.provider = legacy.provider;
+      delete stored.provider;
+      for (const key of LEGACY_PROFILE_KEYS) {
+        const value = legacy[key];
+        if (typeof value === 'string' && value) {
+          profile[key] = value;
+        }
+        delete stored[key];
+      }
+      this.settings.profiles = [profile];
+      this.settings.defaultProfileId = profile.id;
+    }
+    // Profiles saved before a field existed get its default
+    this.settings.profiles = this.settings.profiles.map(profile => ({ ...DEFAULT_PROFILE, ...profile }));
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
-    this.setupR2Uploader();
+    this.setupUploader();
   }
 
-  private setupR2Uploader() {
-    if (
-      this.settings.accessKeyId &&
-      this.settings.secretAccessKey &&
-      this.settings.endpoint &&
-      this.settings.bucketName
-    ) {
-      const r2Setting: R2Setting = {
-        accessKeyId: this.settings.accessKeyId,
-        secretAccessKey: this.settings.secretAccessKey,
-        endpoint: this.settings.endpoint,
-        bucketName: this.settings.bucketName,
-        path: this.settings.targetPath,
-        customDomainName: this.settings.customDomainName,
-      };
-      this.r2Uploader = new R2Uploader(r2Setting);
-    } else {
-      this.r2Uploader = null;
+  /**
+   * Persist internal state (upload index...) without rebuilding the uploaders.
+   */
+  async saveState() {
+    await this.saveData(this.settings);
+  }
+
+  private uploadQueueOptions() {
+    return {
+      concurrency: this.settings.uploadConcurrency,
+      maxAttempts: Math.max(1, this.settings.uploadRetries),
+    };
+  }
+
+  private setupUploader() {
+    this.uploadQueue.configure(this.uploadQueueOptions());
+    this.uploaders.clear();
+    // Links signed with the old credentials may no longer work
+    this.presignedUrls.clear();
+    for (const profile of this.settings.profiles) {
+      this.uploaders.set(profile.id, createUploader(profile.provider, profile));
+    }
+  }
+
+  /**
+   * Pick the upload profile for a note using the routing rules, falling back to the default profile.
+   */
+  resolveProfile(noteFile: TFile | null): UploadProfile {
+    return resolveProfile(
+      this.settings.profiles,
+      this.settings.routingRules,
+      this.settings.defaultProfileId,
+      noteFile ? this.noteContext(noteFile) : null
+    );
+  }
+
+  private noteContext(noteFile: TFile): NoteContext {
+    const cache = this.app.metadataCache.getFileCache(noteFile);
+    return {
+      path: noteFile.path,
+      frontmatter: cache?.frontmatter,
+      tags: (cache && getAllTags(cache)) || [],
+    };
+  }
+
+  /**
+   * What the note related path template tokens ({notename}, {frontmatter.slug}...) expand to.
+   */
+  templateNote(noteFile: TFile | null): TemplateNote | undefined {
+    if (!noteFile) return undefined;
+    return {
+      name: noteFile.basename,
+      path: noteFile.path.replace(/\.md$/, ''),
+      frontmatter: this.app.metadataCache.getFileCache(noteFile)?.frontmatter ?? {},
+      vault: this.app.vault.getName(),
+    };
+  }
+
+  private uploaderFor(noteFile: TFile | null): Uploader | null {
+    const profile = this.resolveProfile(noteFile);
+    const uploader = this.uploaders.get(profile.id) ?? null;
+    if (!uploader) {
+      new Notice(this.t('notConfigured', { profile: profile.name }));
+    }
+    return uploader;
+  }
+
+  getUploader(profileId: string): Uploader | null {
+    return this.uploaders.get(profileId) ?? null;
+  }
+
+  /**
+   * Presigned GET URL for an `r2://bucket/key` reference, or null when the URL is not a
+   * reference or no configured profile can sign for its bucket.
+   */
+  async presignReference(
+    url: string,
+    lifetimeSeconds = this.settings.presignedUrlLifetimeMinutes * 60
+  ): Promise<string | null> {
+    const reference = parseObjectReference(url);
+    if (!reference) return null;
+    const profile = this.settings.profiles.find(
+      p => referencesProfile(reference, p) && this.uploaders.get(p.id)?.presignedUrl
+    );
+    const uploader = profile ? this.uploaders.get(profile.id) : null;
+    if (!uploader?.presignedUrl) return null;
+    const presign = uploader.presignedUrl.bind(uploader);
+
+    // At least a minute so the page can load it, and S3 refuses more than seven days
+    const lifetime = Math.min(Math.max(Math.floor(lifetimeSeconds), 60), 7 * 24 * 60 * 60);
+    return this.presignedUrls.get(`${lifetime}:${url}`, lifetime, () =>
+      presign(reference.key, lifetime)
+    );
+  }
+
+  /**
+   * URL a thumbnail or preview can load, presigning private bucket references.
+   */
+  async displayUrl(url: string): Promise<string> {
+    try {
+      return (await this.presignReference(url)) ?? url;
+    } catch (_) {
+      return url;
+    }
+  }
+
+  private async presignRenderedReferences(el: HTMLElement) {
+    const elements = Array.from(
+      el.querySelectorAll<HTMLElement>('img, video, audio, source, iframe, a')
+    );
+    await Promise.all(
+      elements.map(async element => {
+        const srcset = element.getAttribute('srcset');
+        if (srcset) {
+          const { text, replaced } = await replaceObjectReferences(srcset, reference =>
+            this.displayUrl(reference)
+          );
+          if (replaced > 0) element.setAttribute('srcset', text);
+        }
+
+        const attribute = element.tagName === 'A' ? 'href' : 'src';
+        const url = element.getAttribute(attribute);
+        if (!url || !isObjectReference(url)) return;
+        element.setAttribute(attribute, await this.displayUrl(url));
+      })
+    );
+  }
+
+  /**
+   * Write a copy of the active note next to it with every private bucket reference replaced by
+   * a presigned link, for sharing with people who cannot read the bucket.
+   */
+  async exportWithPresignedLinks(): Promise<void> {
+    const file = this.app.workspace.getActiveFile();
+    if (!file || file.extension !== 'md') {
+      new Notice(this.t('noActiveFile'));
+      return;
+    }
+
+    const hours = this.settings.sharedLinkLifetimeHours;
+    try {
+      const { text, replaced } = await replaceObjectReferences(
+        await this.app.vault.read(file),
+        reference => this.presignReference(reference, hours * 60 * 60)
+      );
+      if (replaced === 0) {
+        new Notice(this.t('noReferencesToPresign'));
+        return;
+      }
+
+      const folder = file.parent && file.parent.path !== '/' ? `${file.parent.path}/` : '';
+      const baseName = `${file.basename} (${this.t('sharedCopySuffix')})`;
+      let exportPath = normalizePath(`${folder}${baseName}.md`);
+      for (let n = 2; this.app.vault.getAbstractFileByPath(exportPath); n++) {
+        exportPath = normalizePath(`${folder}${baseName} ${n}.md`);
+      }
+      await this.app.vault.create(exportPath, text);
+      new Notice(
+        this.t('exportedWithPresignedLinks', { count: replaced, path: exportPath, hours })
+      );
+    } catch (error) {
+      new Notice(`${this.t('failedToProcess')} "${file.name}": ${error.message}`);
+    }
+  }
+
+  /**
+   * Insert text at the cursor of the last focused note, even while a sidebar view has focus.
+   * Returns false when no note is open.
+   */
+  insertAtCursor(text: string): boolean {
+    const leaf = this.app.workspace.getMostRecentLeaf();
+    if (!(leaf?.view instanceof MarkdownView)) return false;
+    leaf.view.editor.replaceSelection(text);
+    return true;
+  }
+
+  async openBucketBrowser() {
+    const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_BUCKET_BROWSER)[0];
+    const leaf = existing ?? this.app.workspace.getRightLeaf(false);
+    if (!leaf) return;
+    if (!existing) {
+      await leaf.setViewState({ type: VIEW_TYPE_BUCKET_BROWSER, active: true });
     }
+    this.app.workspace.revealLeaf(leaf);
   }
 
   private async handlePasteEvent(
@@ -493,10 +1749,7 @@ export default class R2UploaderPlugin extends Plugin {
   ) {
     if (evt instanceof PasteEventCopy) return;
 
-    if (!this.r2Uploader) {
-      new Notice(this.t('notConfigured'));
-      return;
-    }
+    if (!this.uploaderFor(markdownView.file)) return;
 
     const files: File[] = [];
 
@@ -504,12 +1757,10 @@ export default class R2UploaderPlugin extends Plugin {
     if (evt.clipboardData?.files && evt.clipboardData.files.length > 0) {
       for (let i = 0; i < evt.clipboardData.files.length; i++) {
         const file = evt.clipboardData.files[i];
-        if (file.type.startsWith('image/')) {
+        if (this.isUploadableAttachment(file.name, file.type)) {
           // Ensure file has a proper name
           if (!file.name || file.name === 'blob') {
-            const extension = file.type.split('/')[1] || 'png';
-            const timestamp = Date.now();
-            const newFile = new File([file], `Pasted image ${timestamp}.${extension}`, {
+            const newFile = new File([file], this.pastedFileName(file.type), {
               type: file.type,
             });
             files.push(newFile);
@@ -526,7 +1777,7 @@ export default class R2UploaderPlugin extends Plugin {
     if (clipboardItems) {
       for (let i = 0; i < clipboardItems.length; i++) {
         const item = clipboardItems[i];
-        if (item.type.startsWith('image/')) {
+        if (item.kind === 'file' && this.isUploadableAttachment('', item.type)) {
           const file = item.getAsFile();
           if (file) {
             // Check if we already have this file (avoid duplicates)
@@ -537,9 +1788,7 @@ export default class R2UploaderPlugin extends Plugin {
 
             // Ensure file has a proper name
             if (!file.name || file.name === 'blob') {
-              const extension = item.type.split('/')[1] || 'png';
-              const timestamp = Date.now();
-              const newFile = new File([file], `Pasted image ${timestamp}.${extension}`, {
+              const newFile = new File([file], this.pastedFileName(item.type), {
                 type: item.type,
               });
               files.push(newFile);
@@ -578,7 +1827,7 @@ export default class R2UploaderPlugin extends Plugin {
     }
 
     for (const file of files) {
-      this.uploadFileAndEmbedR2Image(file).catch(() => {
+      this.uploadFileAndEmbedR2Image(file, markdownView.file).catch(() => {
         markdownView.currentMode.clipboardManager.handlePaste(new PasteEventCopy(evt));
       });
     }
@@ -589,17 +1838,14 @@ export default class R2UploaderPlugin extends Plugin {
     editor: Editor,
     markdownView: MarkdownView
   ) {
-    if (!this.r2Uploader) {
-      new Notice(this.t('notConfigured'));
-      return;
-    }
+    if (!this.uploaderFor(markdownView.file)) return;
 
     const files: File[] = [];
 
     if (evt.dataTransfer?.files) {
       for (let i = 0; i < evt.dataTransfer.files.length; i++) {
         const file = evt.dataTransfer.files[i];
-        if (file.type.startsWith('image/')) {
+        if (this.isUploadableAttachment(file.name, file.type)) {
           files.push(file);
         }
       }
@@ -635,120 +1881,597 @@ export default class R2UploaderPlugin extends Plugin {
     }
 
     for (const file of files) {
-      this.uploadFileAndEmbedR2Image(file, cursorPos).catch(error => {
+      this.uploadFileAndEmbedR2Image(file, markdownView.file, cursorPos).catch(error => {
         new Notice(`Failed to upload ${file.name}: ${error.message}`);
       });
     }
   }
 
-  async uploadImage(file: File): Promise<string | null> {
-    if (!this.r2Uploader) {
-      new Notice(this.t('notConfigured'));
-      return null;
-    }
+  /**
+   * Upload a file with the profile resolved for the note it belongs to.
+   */
+  async uploadImage(file: File, noteFile: TFile | null = null): Promise<string | null> {
+    return (await this.uploadWithNotice(file, noteFile))?.url ?? null;
+  }
+
+  /**
+   * Upload through the whole pipeline, reporting progress and failures as notices.
+   */
+  private async uploadWithNotice(
+    file: File,
+    noteFile: TFile | null
+  ): Promise<UploadOutcome | null> {
+    if (!this.uploaderFor(noteFile)) return null;
 
     try {
       new Notice(`${this.t('uploading')} ${file.name} to R2...`);
-      const url = await this.r2Uploader.upload(file, '');
-      new Notice(`${this.t('uploaded')}: ${url}`);
-      return url;
+      const outcome = await this.uploadFile(file, noteFile);
+      new Notice(`${this.t(outcome.reused ? 'reusedUpload' : 'uploaded')}: ${outcome.url}`);
+      return outcome;
     } catch (error) {
       new Notice(`${this.t('uploadFailed')}: ${error.message}`);
       return null;
     }
   }
 
-  async uploadImages(files: File[]): Promise<string[]> {
-    const urls: string[] = [];
+  /**
+   * Run the whole upload pipeline (metadata stripping, processing, dedup, upload) and
+   * return the URL, flagging uploads that were served from the index.
+   * The index is keyed by the bytes that would be uploaded, so a copy stored before stripping
+   * or processing was turned on is never handed out once it is.
+   * Throws on failure so callers decide how to report or retry.
+   */
+  private async uploadFile(
+    file: File,
+    noteFile: TFile | null
+  ): Promise<UploadOutcome> {
+    const profile = this.resolveProfile(noteFile);
+    const uploader = this.uploaders.get(profile.id);
+    if (!uploader) {
+      throw new Error(this.t('notConfigured', { profile: profile.name }));
+    }
+    if (this.multipartUploaderFor(noteFile, file.size)) {
+      // Too large to process, but metadata still goes before the parts are sent
+      file = await this.stripMetadata(file);
+      return this.uploadLargeFile(blobBody(file), noteFile);
+    }
 
-    for (const file of files) {
-      const url = await this.uploadImage(file);
-      if (url) {
-        urls.push(url);
+    const size = file.size;
+    file = await this.stripMetadata(file);
+    file = await this.processImage(file);
+    const dimensions = this.embedNeedsDimensions(file, noteFile)
+      ? (await ImageProcessor.dimensions(file)) ?? undefined
+      : undefined;
+
+    const hash = this.settings.deduplicateUploads
+      ? await UploaderUtils.sha256Hex(await file.arrayBuffer())
+      : null;
+    if (hash) {
+      const existing = await this.findExistingUpload(profile, uploader, hash);
+      if (existing) {
+        return {
+          url: existing.url,
+          key: existing.key,
+          reused: true,
+          size,
+          variants: existing.variants,
+          dimensions,
+        };
       }
     }
 
-    return urls;
+    const result = await uploader.upload(file, this.uploadOptions(noteFile));
+    const { url, key } = result;
+    // A kept object under the same key may hold other content, so it is not indexed by our hash
+    if (result.existed) return { url, key, reused: true, size, dimensions };
+    const variants = await this.uploadResponsiveVariants(uploader, file, result, noteFile);
+    await this.rememberDeleteTokens(profile, [result, ...(variants ?? [])]);
+    if (hash) await this.rememberUpload(profile, hash, url, key, variants);
+    return { url, key, reused: false, size, variants, dimensions };
   }
 
-  private async uploadFileAndEmbedR2Image(
-    file: File,
-    atPos?: EditorPosition
-  ): Promise<string> {
-    const pasteId = generatePseudoRandomId();
-    this.insertTemporaryText(pasteId, atPos);
-
-    let imgUrl: string;
-    try {
-      imgUrl = await this.uploadImage(file);
-      if (!imgUrl) {
-        throw new Error('Upload failed');
-      }
-    } catch (e) {
-      this.handleFailedUpload(pasteId, `Upload failed: ${e.message}`);
-      throw e;
+  /**
+   * Whether the template `renderEmbed` will pick for the file reads `{width}` or `{height}`.
+   * The built-in embeds never do, so they skip decoding the image.
+   */
+  private embedNeedsDimensions(file: File, noteFile: TFile | null): boolean {
+    const type = this.attachmentTypeFor(file.name, file.type);
+    const profile = this.resolveProfile(noteFile);
+    if ((type?.render ?? 'image') === 'image' && profile.embedStyle !== 'markdown') {
+      return profile.embedStyle === 'custom' && templateUsesDimensions(profile.embedTemplate);
     }
-
-    this.embedMarkDownImage(pasteId, imgUrl, file);
-    return imgUrl;
+    return templateUsesDimensions(type?.template ?? '');
   }
 
-  private insertTemporaryText(pasteId: string, atPos?: EditorPosition) {
-    const progressText = R2UploaderPlugin.progressTextFor(pasteId);
-    const replacement = `${progressText}\n`;
-    const editor = this.activeEditor;
-    if (atPos) {
-      editor.replaceRange(replacement, atPos, atPos);
-    } else {
-      editor.replaceSelection(replacement);
+  /**
+   * Render the widths of a freshly uploaded image and upload them next to it.
+   * `<picture>` offers WebP beside a JPEG or PNG fallback, a plain srcset keeps the upload's format.
+   * Returns every stored width including the original, or undefined when there is nothing to add.
+   */
+  private async uploadResponsiveVariants(
+    uploader: Uploader,
+    file: File,
+    original: UploadResult,
+    noteFile: TFile | null
+  ): Promise<UploadedVariant[] | undefined> {
+    const encodable = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'];
+    if (!this.settings.responsiveImages || !encodable.includes(file.type)) return undefined;
+
+    const fallbackType = ['image/jpeg', 'image/png'].includes(file.type) ? file.type : 'image/jpeg';
+    const types =
+      this.settings.responsiveMarkup === 'picture' ? ['image/webp', fallbackType] : [file.type];
+    try {
+      const { width, variants } = await ImageProcessor.renderVariants(
+        file,
+        parseWidths(this.settings.responsiveWidths),
+        types,
+        this.settings.imageQuality
+      );
+      if (variants.length === 0) return undefined;
+
+      const uploaded = await uploadVariants(
+        uploader,
+        original,
+        variants,
+        this.uploadOptions(noteFile)
+      );
+      return [{ url: original.url, key: original.key, width, type: file.type }, ...uploaded];
+    } catch (error) {
+      // The original is stored already, embed it without the extra widths
+      new Notice(`${this.t('responsiveVariantsFailed')}: ${file.name}`);
+      return undefined;
     }
   }
 
-  private static progressTextFor(id: string) {
-    return `![Uploading file...${id}]()`;
+  private uploadOptions(noteFile: TFile | null): UploadOptions {
+    return { note: this.templateNote(noteFile), overwrite: this.settings.overwritePolicy };
   }
 
-  private static mimeTypeFromExtension(extension: string): string {
-    if (!extension) return 'application/octet-stream';
-    const lower = extension.toLowerCase();
-    return this.extensionMimeMap[lower] || 'application/octet-stream';
+  /**
+   * The note's uploader when the file is over the multipart threshold and the backend
+   * can upload in parts, null when the file goes through a single request.
+   */
+  private multipartUploaderFor(noteFile: TFile | null, size: number): Uploader | null {
+    const uploader = this.uploaders.get(this.resolveProfile(noteFile).id);
+    if (!uploader?.uploadMultipart) return null;
+    return size >= this.settings.multipartThresholdMB * 1024 * 1024 ? uploader : null;
   }
 
   /**
-   * Get currently selected markdown files in the file explorer.
-   * If selection cannot be determined, fall back to the provided single file.
+   * Upload a large file in parts, reading it a part at a time and reporting progress
+   * in the status bar. Image processing is skipped; callers strip image metadata beforehand
+   * (see `needsStripping`) as the body is streamed untouched.
    */
-  private getSelectedMarkdownFiles(fallback: TFile | null): TFile[] {
-    try {
-      const leaves = this.app.workspace.getLeavesOfType('file-explorer');
-      if (leaves.length > 0) {
-        const view: any = leaves[0].view;
-        if (view?.getSelection) {
-          const selection = view.getSelection() as TFile[];
-          const markdownFiles = selection.filter(f => f.extension === 'md');
-          if (markdownFiles.length > 0) {
-            return markdownFiles;
-          }
-        }
+  private async uploadLargeFile(
+    body: UploadBody,
+    noteFile: TFile | null,
+    options: MultipartOptions = {}
+  ): Promise<UploadOutcome> {
+    const profile = this.resolveProfile(noteFile);
+    const uploader = this.uploaders.get(profile.id);
+    if (!uploader?.uploadMultipart) {
+      throw new Error(this.t('notConfigured', { profile: profile.name }));
+    }
+
+    const hash = this.settings.deduplicateUploads ? await hashBody(body) : null;
+    if (hash) {
+      const existing = await this.findExistingUpload(profile, uploader, hash);
+      if (existing) {
+        return { url: existing.url, key: existing.key, reused: true, size: body.size };
       }
-    } catch (_) {
-      // ignore errors and fall back to single file
     }
 
-    return fallback && fallback.extension === 'md' ? [fallback] : [];
+    let checkpoint = options.checkpoint;
+    try {
+      const { url, key, existed } = await uploader.uploadMultipart(body, {
+        ...options,
+        ...this.uploadOptions(noteFile),
+        hash: hash ?? undefined,
+        onCheckpoint: async latest => {
+          checkpoint = latest;
+          await options.onCheckpoint?.(latest);
+        },
+        partSize: this.settings.multipartPartSizeMB * 1024 * 1024,
+        onProgress: (sent, total) => {
+          this.statusBarItemEl.setText(
+            this.t('multipartProgress', {
+              name: body.name,
+              percent: total > 0 ? Math.floor((sent / total) * 100) : 100,
+            })
+          );
+          options.onProgress?.(sent, total);
+        },
+      });
+      if (existed) return { url, key, reused: true, size: body.size };
+      if (hash) await this.rememberUpload(profile, hash, url, key);
+      return { url, key, reused: false, size: body.size };
+    } catch (error) {
+      // Nobody will resume it, so free the parts that were stored
+      if (checkpoint && !options.onCheckpoint) {
+        await uploader.abortMultipart?.(checkpoint).catch(() => undefined);
+      }
+      throw error;
+    } finally {
+      this.statusBarItemEl.setText(this.t('pluginReady'));
+    }
   }
 
-  private embedMarkDownImage(pasteId: string, imageUrl: string, file: File) {
-    const progressText = R2UploaderPlugin.progressTextFor(pasteId);
+  /**
+   * Keep what backends such as Imgur need to delete an upload later, when they return it.
+   */
+  private async rememberDeleteTokens(
+    profile: UploadProfile,
+    uploads: { key: string; deleteToken?: string }[]
+  ) {
+    let remembered = false;
+    for (const { key, deleteToken } of uploads) {
+      if (!deleteToken) continue;
+      this.settings.deleteTokens[`${profile.id}:${key}`] = deleteToken;
+      remembered = true;
+    }
+    if (remembered) await this.saveState();
+  }
+
+  private async rememberUpload(
+    profile: UploadProfile,
+    hash: string,
+    url: string,
+    key: string,
+    variants?: UploadedVariant[]
+  ) {
+    this.uploadIndex.set(profile.id, hash, {
+      url,
+      key,
+      bucket: profile.bucketName,
+      uploadedAt: Date.now(),
+      variants,
+    });
+    await this.saveState();
+  }
+
+  /**
+   * Whether a file of this type has to be read into memory for `stripMetadata`
+   * instead of being streamed from disk.
+   */
+  private needsStripping(mimeType: string): boolean {
+    return this.settings.stripMetadata && mimeType.startsWith('image/');
+  }
+
+  /**
+   * Remove EXIF/XMP/IPTC metadata when enabled.
+   * Warns and keeps the file as is when an image that may carry metadata cannot be sanitized.
+   */
+  private async stripMetadata(file: File): Promise<File> {
+    if (!this.settings.stripMetadata) return file;
+
+    try {
+      if (!(await MetadataStripper.supports(file))) {
+        // GIF, SVG, BMP and videos are left alone, but a photo we cannot parse deserves a warning
+        if (/^image\/(jpeg|png|webp|heic|heif|avif|tiff)$/.test(file.type)) {
+          throw new Error(`unrecognized ${file.type} data`);
+        }
+        return file;
+      }
+      return await MetadataStripper.strip(file, this.settings.keepImageOrientation);
+    } catch (error) {
+      new Notice(`${this.t('metadataStripFailed')}: ${file.name} (${error.message})`);
+      return file;
+    }
+  }
+
+  /**
+   * Resize/re-encode the image according to the image processing settings.
+   * Falls back to the untouched file when the browser cannot decode it.
+   */
+  private async processImage(file: File): Promise<File> {
+    if (!this.settings.processImages) return file;
+
+    try {
+      return await ImageProcessor.process(file, {
+        maxWidth: this.settings.maxImageWidth,
+        maxHeight: this.settings.maxImageHeight,
+        quality: this.settings.imageQuality,
+        format: this.settings.imageOutputFormat,
+        skipBelowKB: this.settings.skipProcessingBelowKB,
+      });
+    } catch (error) {
+      new Notice(`${this.t('imageProcessingFailed')}: ${file.name}`);
+      return file;
+    }
+  }
+
+  /**
+   * Look up content that was already uploaded with this profile.
+   * Entries for another bucket, or objects that vanished (when verification is on), are dropped.
+   */
+  private async findExistingUpload(
+    profile: UploadProfile,
+    uploader: Uploader,
+    hash: string
+  ): Promise<UploadIndexEntry | null> {
+    const entry = this.uploadIndex.get(profile.id, hash);
+    if (!entry) return null;
+
+    let valid = entry.bucket === profile.bucketName;
+    if (valid && this.settings.verifyDeduplicatedUploads) {
+      try {
+        valid = await uploader.exists(entry.key);
+      } catch (_) {
+        // The backend cannot tell us, trust the index rather than uploading twice
+      }
+    }
+
+    if (!valid) {
+      this.uploadIndex.delete(profile.id, hash);
+      await this.saveState();
+      return null;
+    }
+    return entry;
+  }
+
+  async uploadImages(files: File[]): Promise<string[]> {
+    const urls: string[] = [];
+    const noteFile = this.app.workspace.getActiveFile();
+
+    for (const file of files) {
+      const url = await this.uploadImage(file, noteFile);
+      if (url) {
+        urls.push(url);
+      }
+    }
+
+    return urls;
+  }
+
+  /**
+   * Insert a placeholder and queue the upload. The queue swaps the placeholder for the embed
+   * once the upload finishes, even after a restart or when the note is no longer active.
+   */
+  private async uploadFileAndEmbedR2Image(
+    file: File,
+    noteFile: TFile | null,
+    atPos?: EditorPosition
+  ): Promise<void> {
+    const pasteId = generatePseudoRandomId();
+    this.insertTemporaryText(pasteId, atPos);
+
+    try {
+      if (!noteFile) {
+        throw new Error(this.t('noActiveFile'));
+      }
+      const stagedPath = await this.stageUpload(pasteId, file);
+      await this.uploadQueue.add({
+        id: pasteId,
+        notePath: noteFile.path,
+        fileName: file.name,
+        mimeType: file.type,
+        stagedPath,
+      });
+    } catch (e) {
+      this.handleFailedUpload(pasteId, `Upload failed: ${e.message}`);
+      throw e;
+    }
+  }
+
+  private get stagingFolder(): string {
+    return normalizePath(`${this.manifest.dir}/upload-queue`);
+  }
+
+  /**
+   * Keep a copy of the file in the plugin folder so a pending upload survives a restart.
+   */
+  private async stageUpload(id: string, file: File): Promise<string> {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(this.stagingFolder))) {
+      await adapter.mkdir(this.stagingFolder);
+    }
+    const stagedPath = `${this.stagingFolder}/${id}`;
+    if (adapter instanceof FileSystemAdapter && file.size >= this.settings.multipartThresholdMB * 1024 * 1024) {
+      // Copy large files in chunks instead of holding them in memory
+      await writeBlobToDisk(file, adapter.getFullPath(stagedPath));
+    } else {
+      await adapter.writeBinary(stagedPath, await file.arrayBuffer());
+    }
+    return stagedPath;
+  }
+
+  private async runUploadJob(job: UploadJob): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    const abstractFile = this.app.vault.getAbstractFileByPath(job.notePath);
+    const noteFile = abstractFile instanceof TFile ? abstractFile : null;
+    const stat = await adapter.stat(job.stagedPath);
+
+    let outcome: UploadOutcome;
+    if (
+      stat &&
+      adapter instanceof FileSystemAdapter &&
+      this.multipartUploaderFor(noteFile, stat.size) &&
+      !this.needsStripping(job.mimeType)
+    ) {
+      const body = diskBody(adapter.getFullPath(job.stagedPath), job.fileName, job.mimeType, stat.size);
+      outcome = await this.uploadLargeFile(body, noteFile, {
+        checkpoint: job.multipart,
+        onCheckpoint: async checkpoint => {
+          job.multipart = checkpoint;
+          await this.saveState();
+        },
+      });
+    } else {
+      const data = await adapter.readBinary(job.stagedPath);
+      const file = new File([data], job.fileName, { type: job.mimeType });
+      outcome = await this.uploadFile(file, noteFile);
+    }
+
+    const { url, reused } = outcome;
+    await this.embedMarkDownImage(job.notePath, job.id, outcome, job.fileName, job.mimeType);
+    await adapter.remove(job.stagedPath);
+    new Notice(`${this.t(reused ? 'reusedUpload' : 'uploaded')}: ${url}`);
+  }
+
+  /**
+   * All attempts failed: save the staged file as a regular attachment so the image is not lost.
+   */
+  private async failUploadJob(job: UploadJob, error: Error): Promise<void> {
+    const progressText = R2UploaderPlugin.progressTextFor(job.id);
+    const adapter = this.app.vault.adapter;
+
+    // Do not leave the parts that did arrive lying around in the bucket
+    if (job.multipart) {
+      const abstractFile = this.app.vault.getAbstractFileByPath(job.notePath);
+      const uploader = this.uploaders.get(
+        this.resolveProfile(abstractFile instanceof TFile ? abstractFile : null).id
+      );
+      await uploader?.abortMultipart?.(job.multipart).catch(() => undefined);
+    }
+
+    try {
+      const data = await adapter.readBinary(job.stagedPath);
+      const attachmentPath = await this.app.fileManager.getAvailablePathForAttachment(
+        job.fileName,
+        job.notePath
+      );
+      const attachment = await this.app.vault.createBinary(attachmentPath, data);
+      await adapter.remove(job.stagedPath);
+      const link = this.app.fileManager.generateMarkdownLink(attachment, job.notePath);
+      await this.replaceInNote(job.notePath, progressText, `!${link}`);
+      new Notice(`${this.t('uploadSavedLocally')}: ${job.fileName} (${error.message})`);
+    } catch (_) {
+      await this.replaceInNote(job.notePath, progressText, `<!--Upload failed: ${error.message}-->`);
+      new Notice(`${this.t('uploadFailed')}: ${job.fileName} (${error.message})`);
+    }
+  }
+
+  private insertTemporaryText(pasteId: string, atPos?: EditorPosition) {
+    const progressText = R2UploaderPlugin.progressTextFor(pasteId);
+    const replacement = `${progressText}\n`;
+    const editor = this.activeEditor;
+    if (atPos) {
+      editor.replaceRange(replacement, atPos, atPos);
+    } else {
+      editor.replaceSelection(replacement);
+    }
+  }
+
+  private static progressTextFor(id: string) {
+    return `![Uploading file...${id}]()`;
+  }
+
+  /**
+   * The configured attachment type of a file, enabled or not.
+   */
+  attachmentTypeFor(fileName: string, mimeType = ''): AttachmentType | null {
+    return findAttachmentType(this.settings.attachmentTypes, fileName, mimeType);
+  }
+
+  /**
+   * Whether pasting, dropping or publishing the file should upload it.
+   */
+  isUploadableAttachment(fileName: string, mimeType = ''): boolean {
+    return this.attachmentTypeFor(fileName, mimeType)?.enabled ?? false;
+  }
+
+  /**
+   * The embed written into a note for an uploaded file, falling back to the URL's
+   * extension when the file itself has no known type.
+   */
+  embedFor(url: string, fileName: string, options: EmbedOptions = {}): string {
+    const type =
+      this.attachmentTypeFor(fileName, options.mimeType ?? '') ?? this.attachmentTypeFor(url);
+    return this.renderEmbed(type, url, fileName, options);
+  }
+
+  /**
+   * The embed for a file of the given type. Images uploaded with responsive widths list them
+   * all, a profile that picked its own image style keeps it, otherwise the type's template
+   * wins over the built-in embed.
+   * The settings preview renders through here too, so it matches what gets inserted.
+   */
+  renderEmbed(
+    type: AttachmentType | null,
+    url: string,
+    fileName: string,
+    options: EmbedOptions = {}
+  ): string {
+    const render: AttachmentRender = type?.render ?? 'image';
+    const embed: EmbedImage = {
+      url,
+      alt: options.altText ?? '',
+      title: options.title,
+      size: options.size,
+      fileName,
+      bytes: options.bytes,
+      dimensions: options.dimensions,
+    };
+    const style = options.profile?.embedStyle ?? 'markdown';
+
+    if (render === 'image' && options.variants && options.variants.length > 1) {
+      return renderResponsiveImage(
+        this.settings.responsiveMarkup,
+        embed,
+        options.variants,
+        this.settings.responsiveSizes
+      );
+    }
+    if (render === 'image' && style !== 'markdown') {
+      return renderImageEmbed(style, embed, options.profile?.embedTemplate);
+    }
+    if (type?.template) return renderEmbedTemplate(type.template, embed);
+    if (render === 'image') return renderImageEmbed('markdown', embed);
+    return renderAttachment(render, url, fileName, embed.alt);
+  }
+
+  /**
+   * Name a pasted blob, which browsers leave unnamed.
+   */
+  private pastedFileName(mimeType: string): string {
+    const extension = extensionFromMimeType(mimeType);
+    const label = mimeType.startsWith('image/') ? 'Pasted image' : 'Pasted file';
+    return `${label} ${Date.now()}.${extension}`;
+  }
+
+  /**
+   * Get currently selected markdown files in the file explorer.
+   * If selection cannot be determined, fall back to the provided single file.
+   */
+  private getSelectedMarkdownFiles(fallback: TFile | null): TFile[] {
+    try {
+      const leaves = this.app.workspace.getLeavesOfType('file-explorer');
+      if (leaves.length > 0) {
+        const view: any = leaves[0].view;
+        if (view?.getSelection) {
+          const selection = view.getSelection() as TFile[];
+          const markdownFiles = selection.filter(f => f.extension === 'md');
+          if (markdownFiles.length > 0) {
+            return markdownFiles;
+          }
+        }
+      }
+    } catch (_) {
+      // ignore errors and fall back to single file
+    }
 
-    const isVideo =
-      file.type?.startsWith('video/') ||
-      ImageTagProcessor.isVideoAsset(file.name) ||
-      ImageTagProcessor.isVideoAsset(imageUrl);
+    return fallback && fallback.extension === 'md' ? [fallback] : [];
+  }
 
-    const embedTag = isVideo ? `<video controls src="${imageUrl}"></video>` : `![](${imageUrl})`;
+  private async embedMarkDownImage(
+    notePath: string,
+    pasteId: string,
+    upload: UploadOutcome,
+    fileName: string,
+    mimeType: string
+  ) {
+    const progressText = R2UploaderPlugin.progressTextFor(pasteId);
+    const noteFile = this.app.vault.getAbstractFileByPath(notePath);
+
+    const embedTag = this.embedFor(upload.url, fileName, {
+      mimeType,
+      bytes: upload.size,
+      variants: upload.variants,
+      dimensions: upload.dimensions,
+      profile: this.resolveProfile(noteFile instanceof TFile ? noteFile : null),
+    });
 
-    this.replaceFirstOccurrence(this.activeEditor, progressText, embedTag);
+    await this.replaceInNote(notePath, progressText, embedTag);
   }
 
   private generateUniqueFileName(originalName: string): string {
@@ -784,14 +2507,44 @@ export default class R2UploaderPlugin extends Plugin {
     editor: Editor,
     searchText: string,
     replacement: string
-  ) {
+  ): boolean {
     const content = editor.getValue();
     const index = content.indexOf(searchText);
     if (index !== -1) {
       const start = editor.offsetToPos(index);
       const end = editor.offsetToPos(index + searchText.length);
       editor.replaceRange(replacement, start, end);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Replace text in a note whether or not it is open. Open editors are edited directly
+   * so the change merges with what the user is typing.
+   */
+  private async replaceInNote(
+    notePath: string,
+    searchText: string,
+    replacement: string
+  ): Promise<boolean> {
+    for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+      const view = leaf.view;
+      if (view instanceof MarkdownView && view.file?.path === notePath) {
+        if (this.replaceFirstOccurrence(view.editor, searchText, replacement)) return true;
+      }
     }
+
+    const file = this.app.vault.getAbstractFileByPath(notePath);
+    if (!(file instanceof TFile)) return false;
+    const content = await this.app.vault.read(file);
+    const index = content.indexOf(searchText);
+    if (index === -1) return false;
+    await this.app.vault.modify(
+      file,
+      content.substring(0, index) + replacement + content.substring(index + searchText.length)
+    );
+    return true;
   }
 
   private get activeEditor(): Editor {
@@ -807,24 +2560,27 @@ export default class R2UploaderPlugin extends Plugin {
     }
 
     const editor = activeView.editor;
-    const uploads: { url: string; file: File }[] = [];
+    const uploads: { upload: UploadOutcome; file: File }[] = [];
 
     for (const file of files) {
-      const url = await this.uploadImage(file);
-      if (url) {
-        uploads.push({ url, file });
+      const upload = await this.uploadWithNotice(file, activeView.file);
+      if (upload) {
+        uploads.push({ upload, file });
       }
     }
 
     if (uploads.length > 0) {
-      // Generate image/video tags with actual uploaded URLs
-      const mediaTags = uploads.map(({ url, file }) => {
-        const isVideo =
-          file.type?.startsWith('video/') ||
-          ImageTagProcessor.isVideoAsset(file.name) ||
-          ImageTagProcessor.isVideoAsset(url);
-        return isVideo ? `<video controls src="${url}"></video>` : `![](${url})`;
-      });
+      // Generate embeds with actual uploaded URLs
+      const profile = this.resolveProfile(activeView.file);
+      const mediaTags = uploads.map(({ upload, file }) =>
+        this.embedFor(upload.url, file.name, {
+          mimeType: file.type,
+          bytes: upload.size,
+          variants: upload.variants,
+          dimensions: upload.dimensions,
+          profile,
+        })
+      );
 
       // Insert image tags at cursor position
       const cursor = editor.getCursor();
@@ -847,8 +2603,6 @@ export default class R2UploaderPlugin extends Plugin {
   private async downloadExternalImage(url: string): Promise<File | null> {
     return new Promise((resolve, reject) => {
       try {
-        new Notice(`${this.t('downloadExternalImage')}: ${url.substring(0, 50)}...`);
-        
         const urlObj = new URL(url);
         const isHttps = urlObj.protocol === 'https:';
         const httpModule = isHttps ? https : http;
@@ -880,9 +2634,9 @@ export default class R2UploaderPlugin extends Plugin {
           
           contentType = res.headers['content-type'] || '';
           
-          // Check if it's actually an image
-          if (!contentType.startsWith('image/') && !contentType.startsWith('video/')) {
-            reject(new Error(`Not an image/video: ${contentType}`));
+          // Check it is a type the plugin uploads
+          if (!this.isUploadableAttachment(urlObj.pathname, contentType)) {
+            reject(new Error(`Unsupported content type: ${contentType}`));
             return;
           }
           
@@ -976,254 +2730,897 @@ export default class R2UploaderPlugin extends Plugin {
       return;
     }
 
-    let totalSuccess = 0;
-    let totalError = 0;
+    await this.runPublish(
+      files.map(file => this.vaultPublishTarget(file)),
+      'selected files'
+    );
+  }
+
+  private vaultPublishTarget(file: TFile): PublishTarget {
+    return {
+      file,
+      read: () => this.app.vault.read(file),
+      write: content => this.app.vault.modify(file, content),
+    };
+  }
+
+  /**
+   * Publish the targets with a bounded worker pool, reporting progress in a modal
+   * (or the status bar when the progress modal is disabled). Cancelling stops new uploads;
+   * notes keep the images that were already uploaded.
+   */
+  private async runPublish(targets: PublishTarget[], scope: string): Promise<void> {
+    // Without updating the originals the rewritten notes go to the clipboard and the export folder
+    const copyMode = !this.settings.updateOriginalDocument;
+    const exportFolder = normalizePath(this.settings.publishExportFolder.trim() || '/');
+    if (copyMode && targets.length > 1 && exportFolder === '/') {
+      new Notice(this.t('publishCopyNeedsExportFolder'));
+      return;
+    }
+    // Copies exported by earlier runs are never published again, whichever mode is on now
+    if (exportFolder !== '/') {
+      targets = targets.filter(target => !target.file.path.startsWith(`${exportFolder}/`));
+    }
 
     new Notice(
-      `${this.t('startingUpload')} for ${files.length} selected markdown file(s). This may take a while.`
+      `${this.t('startingUpload')} for ${targets.length} markdown file(s) in ${scope}. This may take a while.`
     );
 
-    for (const file of files) {
-      try {
-        const content = await this.app.vault.read(file);
-        const { updatedContent, successCount, errorCount } =
-          await this.uploadLocalImagesInContent(content, file);
+    const controller = new AbortController();
+    const progress: PublishProgress = {
+      filesTotal: targets.length,
+      filesDone: 0,
+      imagesTotal: 0,
+      imagesDone: 0,
+      bytes: 0,
+      current: '',
+      errors: [],
+      finished: false,
+      cancelled: false,
+    };
 
-        if (successCount > 0) {
-          await this.app.vault.modify(file, updatedContent);
+    const modal = this.settings.showProgressModal
+      ? new PublishProgressModal(this.app, this, progress, () => controller.abort())
+      : null;
+    modal?.open();
+
+    const session: PublishSession = {
+      progress,
+      signal: controller.signal,
+      limit: createLimiter(this.settings.publishConcurrency),
+      uploads: new Map(),
+      journal: { id: generatePseudoRandomId(8), startedAt: Date.now(), scope, entries: [] },
+      written: new Map(),
+      replacedAttachments: new Set(),
+      update: () => {
+        if (modal?.isOpen) {
+          modal.scheduleRender();
+        } else {
+          this.statusBarItemEl.setText(
+            this.t('progressStatusBar', {
+              done: progress.imagesDone.toString(),
+              total: progress.imagesTotal.toString(),
+            })
+          );
         }
+      },
+    };
 
-        totalSuccess += successCount;
-        totalError += errorCount;
-      } catch (e) {
-        new Notice(`${this.t('failedToProcess')} "${file.name}": ${e.message}`);
-        totalError++;
-      }
+    let totalSuccess = 0;
+    let totalError = 0;
+    const copies: { file: TFile; content: string }[] = [];
+
+    await runPool(
+      targets,
+      this.settings.publishConcurrency,
+      async target => {
+        try {
+          const content = await target.read();
+          const { updatedContent, successCount, errorCount, entries, localFiles } =
+            await this.uploadLocalImagesInContent(content, target.file, session);
+
+          if (copyMode) {
+            copies.push({ file: target.file, content: updatedContent });
+          } else if (successCount > 0) {
+            await target.write(updatedContent);
+            session.journal.entries.push(...entries);
+            session.written.set(target.file.path, updatedContent);
+            localFiles.forEach(file => session.replacedAttachments.add(file));
+          }
+
+          totalSuccess += successCount;
+          totalError += errorCount;
+        } catch (e) {
+          progress.errors.push(`${this.t('failedToProcess')} "${target.file.name}": ${e.message}`);
+          totalError++;
+        }
+        progress.filesDone++;
+        session.update();
+      },
+      controller.signal
+    );
+
+    if (this.settings.attachmentCleanup !== 'keep' && session.replacedAttachments.size > 0) {
+      session.journal.cleanedUp = await this.cleanUpAttachments(session);
+    }
+    if (copies.length > 0) {
+      await this.deliverPublishedCopies(copies, exportFolder === '/' ? '' : exportFolder);
+    }
+
+    progress.finished = true;
+    progress.cancelled = controller.signal.aborted;
+    progress.current = '';
+    session.update();
+    this.statusBarItemEl.setText(this.t('pluginReady'));
+
+    if (session.journal.entries.length > 0) {
+      this.publishHistory.add(session.journal);
+      await this.saveState();
     }
 
     new Notice(
-      `${this.t('finishedUpload')} for selected files. ${this.t('successfullyUploaded', { count: totalSuccess.toString() })} with ${totalError} errors.`
+      `${this.t(progress.cancelled ? 'publishCancelled' : 'finishedUpload')} for ${scope}. ${this.t('successfullyUploaded', { count: totalSuccess.toString() })} with ${totalError} errors.`
     );
   }
 
+  /**
+   * Hand out the notes published without updating the originals: a single note is copied to
+   * the clipboard, and every note is written to the export folder when one is set.
+   * Both get the same content, without note properties when those are ignored.
+   */
+  private async deliverPublishedCopies(copies: { file: TFile; content: string }[], exportFolder: string) {
+    if (this.settings.ignoreNoteProperties) {
+      copies = copies.map(copy => {
+        const frontMatter = getFrontMatterInfo(copy.content);
+        return frontMatter.exists
+          ? { ...copy, content: copy.content.substring(frontMatter.contentStart) }
+          : copy;
+      });
+    }
+
+    try {
+      if (copies.length === 1) {
+        await navigator.clipboard.writeText(copies[0].content);
+        new Notice(this.t('publishedCopyToClipboard'));
+      }
+
+      if (!exportFolder) return;
+      for (const copy of copies) {
+        const exportPath = normalizePath(`${exportFolder}/${copy.file.path}`);
+        const existing = this.app.vault.getAbstractFileByPath(exportPath);
+        if (existing instanceof TFile) {
+          await this.app.vault.modify(existing, copy.content);
+        } else {
+          await this.ensureParentFolder(exportPath);
+          await this.app.vault.create(exportPath, copy.content);
+        }
+      }
+      new Notice(this.t('publishedCopiesExported', { count: copies.length, folder: exportFolder }));
+    } catch (error) {
+      new Notice(`${this.t('failedToProcess')}: ${error.message}`);
+    }
+  }
+
   private async uploadLocalImagesInContent(
     content: string,
-    fileContext: TFile
-  ): Promise<{ updatedContent: string; successCount: number; errorCount: number }> {
+    fileContext: TFile,
+    session: PublishSession
+  ): Promise<{
+    updatedContent: string;
+    successCount: number;
+    errorCount: number;
+    entries: PublishJournalEntry[];
+    localFiles: TFile[];
+  }> {
+    // Per note notices only make sense when a single note is published
+    const verbose = session.progress.filesTotal === 1;
     const imageTags = ImageTagProcessor.extractImageTags(content);
 
     if (imageTags.length === 0) {
-      new Notice(`${this.t('noImagesFound')} in "${fileContext.name}".`);
-      return { updatedContent: content, successCount: 0, errorCount: 0 };
+      if (verbose) new Notice(`${this.t('noImagesFound')} in "${fileContext.name}".`);
+      return {
+        updatedContent: content,
+        successCount: 0,
+        errorCount: 0,
+        entries: [],
+        localFiles: [],
+      };
     }
 
-    // Separate local and external images
-    const localImageTags = imageTags.filter(tag =>
-      ImageTagProcessor.isLocalImage(tag.imagePath)
-    );
-    const externalImageTags = this.settings.downloadExternalImages
-      ? imageTags.filter(tag => !ImageTagProcessor.isLocalImage(tag.imagePath))
-      : [];
+    const { localImageTags, externalImageTags } = this.publishableImages(imageTags);
 
     if (localImageTags.length === 0 && externalImageTags.length === 0) {
-      new Notice(`${this.t('noImagesToUpload')} in "${fileContext.name}".`);
-      return { updatedContent: content, successCount: 0, errorCount: 0 };
+      if (verbose) new Notice(`${this.t('noImagesToUpload')} in "${fileContext.name}".`);
+      return {
+        updatedContent: content,
+        successCount: 0,
+        errorCount: 0,
+        entries: [],
+        localFiles: [],
+      };
     }
 
-    const totalImages = localImageTags.length + externalImageTags.length;
-    new Notice(
-      this.t('foundImages', { local: localImageTags.length.toString(), external: externalImageTags.length.toString() }) + ` in "${fileContext.name}".`
-    );
+    if (verbose) {
+      new Notice(
+        this.t('foundImages', { local: localImageTags.length.toString(), external: externalImageTags.length.toString() }) + ` in "${fileContext.name}".`
+      );
+    }
 
     let updatedContent = content;
     let successCount = 0;
     let errorCount = 0;
-    const replacements: { originalText: string; newUrl: string }[] = [];
+    const replacements: {
+      tag: ImageTag;
+      newUrl: string;
+      upload: UploadOutcome;
+      localFile: TFile | null;
+    }[] = [];
+    const entries: PublishJournalEntry[] = [];
+    const localFiles: TFile[] = [];
+    const profile = this.resolveProfile(fileContext);
+    const profileId = profile.id;
+
+    const jobs = [
+      ...localImageTags.map(tag => ({ tag, external: false })),
+      ...externalImageTags.map(tag => ({ tag, external: true })),
+    ];
+    session.progress.imagesTotal += jobs.length;
+    session.update();
+
+    // Upload all images through the shared limiter and collect replacements
+    await Promise.all(
+      jobs.map(async ({ tag, external }) => {
+        if (session.signal.aborted) return;
+        try {
+          const upload = external
+            ? await this.publishExternalImage(tag, fileContext, session)
+            : await this.publishLocalImage(tag, fileContext, session);
+          if (upload === null) return; // cancelled before it started
 
-    // First, upload all images and collect replacements
-    for (const imageTag of localImageTags) {
-      try {
-        // Resolve the image path using the same logic as obsidian-image-upload-toolkit
-        const { resolvedPath } = ImageTagProcessor.resolveImagePath(
-          imageTag.imagePath,
-          this.app
-        );
-        const normalizedPath = normalizePath(resolvedPath);
-
-        // 1) 기본 경로로 먼저 찾기
-        let file = this.app.vault.getAbstractFileByPath(normalizedPath) as TFile | null;
-
-        // 2) 실패하면, Obsidian의 링크 해석 로직(metadataCache)을 사용해서 전역 검색
-        if (!file) {
-          const activeFile = fileContext;
-          if (activeFile) {
-            const linked = this.app.metadataCache.getFirstLinkpathDest(
-              imageTag.imagePath,
-              activeFile.path
-            );
-            if (linked) {
-              file = linked as TFile;
-            }
-          }
+          replacements.push({
+            tag,
+            newUrl: upload.url,
+            upload,
+            localFile: external ? null : this.resolveLocalImage(tag, fileContext),
+          });
+          successCount++;
+        } catch (error) {
+          const message = external ? this.t('failedToDownloadUpload') : this.t('failedToUpload');
+          session.progress.errors.push(
+            `${message} ${tag.imagePath} in "${fileContext.name}": ${error.message}`
+          );
+          errorCount++;
         }
+        session.progress.imagesDone++;
+        session.update();
+      })
+    );
 
-        // 3) 그래도 못 찾으면, vault 내 모든 파일 이름을 전역 검색
-        if (!file) {
-          const imageName = imageTag.imagePath.split('/').pop();
-          const allFiles = this.app.vault.getFiles();
-          file = allFiles.find((f: TFile) => f.name === imageName) ?? null;
-        }
+    // Now apply all replacements using replaceAll (like obsidian-image-upload-toolkit)
+    for (const replacement of replacements) {
+      const { tag } = replacement;
+      const { originalText } = tag;
+      const fileName = tag.imagePath.split('/').pop() ?? '';
 
-        if (!file) {
-          new Notice(
-            `${this.t('fileNotFound')}: ${imageTag.imagePath} (resolved to: ${normalizedPath}) in "${fileContext.name}". Tried global search but could not locate the file.`
-          );
-          errorCount++;
-          continue;
-        }
+      // The author's alt text, alias or caption wins over the one made up from the file name
+      const altText =
+        tag.altText ||
+        (this.settings.useImageNameAsAltText && fileName
+          ? fileName
+              .replace(/\.(png|jpg|jpeg|gif|svg|webp|bmp|tiff|tif)$/i, '')
+              .replaceAll('-', ' ')
+              .replaceAll('_', ' ')
+          : '');
+
+      // `<img>` tags the author wrote for images keep their attributes, only the source changes.
+      // Anything else, such as a video in an `<img>`, gets the embed of its attachment type.
+      // Subpaths such as `#page=3` of a PDF still apply to the uploaded file
+      const type = this.attachmentTypeFor(fileName) ?? this.attachmentTypeFor(replacement.newUrl);
+      const embedUrl = tag.subpath ? `${replacement.newUrl}#${tag.subpath}` : replacement.newUrl;
+      const newImageTag =
+        tag.syntax === 'html' && (type?.render ?? 'image') === 'image'
+          ? ImageTagProcessor.replaceImageSource(tag, replacement.newUrl)
+          : this.embedFor(embedUrl, fileName, {
+              altText,
+              title: tag.title,
+              size: tag.size,
+              bytes: replacement.upload.size,
+              variants: replacement.upload.variants,
+              dimensions: replacement.upload.dimensions,
+              profile,
+            });
+      // Use replaceAll for safety (like obsidian-image-upload-toolkit)
+      // The same embed can appear more than once, the first replaceAll already took care of it
+      if (!updatedContent.includes(originalText)) continue;
+      updatedContent = updatedContent.replaceAll(originalText, newImageTag);
+      entries.push({
+        notePath: fileContext.path,
+        originalText,
+        newText: newImageTag,
+        url: replacement.newUrl,
+        key: replacement.upload.key,
+        profileId,
+        created: !replacement.upload.reused,
+        variantKeys: replacement.upload.variants
+          ?.map(variant => variant.key)
+          .filter(key => key !== replacement.upload.key),
+      });
+      if (replacement.localFile) localFiles.push(replacement.localFile);
+    }
 
-        // Read file content
-        const fileContent = await this.app.vault.readBinary(file);
+    return { updatedContent, successCount, errorCount, entries, localFiles };
+  }
 
-        // Determine MIME type from file extension
-        const extension = file.extension?.toLowerCase() || '';
-        const mimeType = R2UploaderPlugin.mimeTypeFromExtension(extension);
+  /**
+   * Move local attachments whose embeds this run replaced out of the vault's way,
+   * keeping the ones another note still links to. Returns what was moved so a revert can undo it.
+   */
+  private async cleanUpAttachments(session: PublishSession): Promise<CleanedUpAttachment[]> {
+    const cleanedUp: CleanedUpAttachment[] = [];
 
-        // Create a File object from the binary data
-        const blob = new Blob([fileContent], { type: mimeType });
-        const fileObj = new File([blob], file.name, { type: mimeType });
+    for (const file of session.replacedAttachments) {
+      if (this.isAttachmentInUse(file, session.written)) continue;
 
-        // Upload to R2
-        const url = await this.uploadImage(fileObj);
-        if (url) {
-          // Collect replacement information
-          replacements.push({
-            originalText: imageTag.originalText,
-            newUrl: url,
-          });
-          successCount++;
-        } else {
-          errorCount++;
+      const path = file.path;
+      try {
+        switch (this.settings.attachmentCleanup) {
+          case 'system-trash':
+            await this.app.vault.trash(file, true);
+            cleanedUp.push({ path });
+            break;
+          case 'obsidian-trash':
+            await this.app.vault.trash(file, false);
+            cleanedUp.push({ path });
+            break;
+          case 'archive':
+            cleanedUp.push({ path, archivedPath: await this.archiveAttachment(file) });
+            break;
         }
       } catch (error) {
-        new Notice(
-          `${this.t('failedToUpload')} ${imageTag.imagePath} in "${fileContext.name}": ${error.message}`
-        );
-        errorCount++;
+        session.progress.errors.push(`${this.t('cleanupFailed')} ${path}: ${error.message}`);
       }
     }
 
-    // Process external images if enabled
-    for (const imageTag of externalImageTags) {
-      try {
-        // Download external image
-        const file = await this.downloadExternalImage(imageTag.imagePath);
+    if (cleanedUp.length > 0) {
+      new Notice(this.t('attachmentsCleanedUp', { count: cleanedUp.length }));
+    }
+    return cleanedUp;
+  }
+
+  private isAttachmentInUse(file: TFile, written: Map<string, string>): boolean {
+    // Backlinks from notes this run did not rewrite
+    const { resolvedLinks } = this.app.metadataCache;
+    for (const sourcePath of Object.keys(resolvedLinks)) {
+      if (!written.has(sourcePath) && resolvedLinks[sourcePath][file.path]) return true;
+    }
+
+    // The cache may not have caught up with the rewritten notes yet, look at their new content
+    for (const [notePath, content] of written) {
+      const note = this.app.vault.getAbstractFileByPath(notePath);
+      if (!(note instanceof TFile)) continue;
+      const stillEmbedded = ImageTagProcessor.extractImageTags(content).some(
+        tag =>
+          ImageTagProcessor.isLocalImage(tag.imagePath) &&
+          this.resolveLocalImage(tag, note)?.path === file.path
+      );
+      if (stillEmbedded) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Move an attachment into the archive folder, mirroring its vault path.
+   */
+  private async archiveAttachment(file: TFile): Promise<string> {
+    const archiveFolder = normalizePath(this.settings.attachmentArchiveFolder || 'Archive');
+    let archivedPath = normalizePath(`${archiveFolder}/${file.path}`);
+    if (this.app.vault.getAbstractFileByPath(archivedPath)) {
+      archivedPath = archivedPath.replace(/(\.[^/.]+)?$/, ` ${Date.now()}$1`);
+    }
+
+    await this.ensureParentFolder(archivedPath);
+    await this.app.vault.rename(file, archivedPath);
+    return archivedPath;
+  }
+
+  private async ensureParentFolder(path: string) {
+    const folder = path.substring(0, path.lastIndexOf('/'));
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+  }
+
+  /**
+   * Separate local images from external ones, which are only published when downloading is enabled.
+   */
+  private publishableImages(imageTags: ImageTag[]): {
+    localImageTags: ImageTag[];
+    externalImageTags: ImageTag[];
+  } {
+    // Embeds of notes and of types that are not uploaded stay in the vault
+    const localImageTags = imageTags.filter(
+      tag =>
+        ImageTagProcessor.isLocalImage(tag.imagePath) &&
+        this.isUploadableAttachment(tag.imagePath)
+    );
+    const externalImageTags = this.settings.downloadExternalImages
+      ? imageTags.filter(tag => /^https?:\/\//i.test(tag.imagePath))
+      : [];
+    return { localImageTags, externalImageTags };
+  }
+
+  /**
+   * Work out what publishing the targets would do, without uploading or modifying anything.
+   * The preview modal can then start the real run on the same targets.
+   */
+  private async previewPublish(targets: PublishTarget[], scope: string): Promise<void> {
+    new Notice(this.t('previewScanning', { count: targets.length }));
+
+    const preview: PublishPreview = {
+      totalNotes: targets.length,
+      notes: [],
+      uploads: 0,
+      bytes: 0,
+      downloads: 0,
+      unresolved: 0,
+    };
+    const seen = new Set<string>();
+
+    for (const target of targets) {
+      const content = await target.read();
+      const { localImageTags, externalImageTags } = this.publishableImages(
+        ImageTagProcessor.extractImageTags(content)
+      );
+      if (localImageTags.length === 0 && externalImageTags.length === 0) continue;
+
+      const profile = this.resolveProfile(target.file);
+      const note: PublishPreviewNote = {
+        file: target.file,
+        profile: profile.name,
+        uploads: [],
+        downloads: [],
+        unresolved: [],
+      };
+
+      for (const tag of localImageTags) {
+        const file = this.resolveLocalImage(tag, target.file);
         if (!file) {
-          errorCount++;
+          note.unresolved.push(tag.imagePath);
           continue;
         }
+        note.uploads.push(file.path);
+        const key = `${profile.id}:${file.path}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          preview.uploads++;
+          preview.bytes += file.stat.size;
+        }
+      }
 
-        // Upload to R2
-        const url = await this.uploadImage(file);
-        if (url) {
-          // Collect replacement information
-          replacements.push({
-            originalText: imageTag.originalText,
-            newUrl: url,
-          });
-          successCount++;
-        } else {
-          errorCount++;
+      for (const tag of externalImageTags) {
+        note.downloads.push(tag.imagePath);
+        const key = `${profile.id}:${tag.imagePath}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          preview.downloads++;
         }
-      } catch (error) {
-        new Notice(
-          `${this.t('failedToDownloadUpload')} ${imageTag.imagePath} in "${fileContext.name}": ${error.message}`
-        );
-        errorCount++;
       }
+
+      preview.unresolved += note.unresolved.length;
+      preview.notes.push(note);
     }
 
-    // Now apply all replacements using replaceAll (like obsidian-image-upload-toolkit)
-    for (const replacement of replacements) {
-      // Generate alt text from filename (like obsidian-image-upload-toolkit)
-      let fileName = '';
+    new PublishPreviewModal(this.app, this, preview, () => this.runPublish(targets, scope)).open();
+  }
+
+  /**
+   * Put the original local embeds of a publish run back and optionally delete the objects it created.
+   * Embeds edited since the run are left alone, and objects still linked from any note are kept.
+   */
+  async revertPublish(journal: PublishJournal, deleteObjects: boolean): Promise<void> {
+    const byNote = new Map<string, PublishJournalEntry[]>();
+    for (const entry of journal.entries) {
+      byNote.set(entry.notePath, [...(byNote.get(entry.notePath) ?? []), entry]);
+    }
+
+    // Bring archived attachments back first so the restored embeds resolve again
+    let notRestored = 0;
+    for (const attachment of journal.cleanedUp ?? []) {
+      if (this.app.vault.getAbstractFileByPath(attachment.path)) continue;
+      const archived = attachment.archivedPath
+        ? this.app.vault.getAbstractFileByPath(attachment.archivedPath)
+        : null;
+      if (archived instanceof TFile) {
+        await this.ensureParentFolder(attachment.path);
+        await this.app.vault.rename(archived, attachment.path);
+      } else {
+        notRestored++;
+      }
+    }
+
+    let restored = 0;
+    let skipped = 0;
+    let notes = 0;
+    // Open editors save after a delay, so keep the reverted text instead of reading it back
+    const written = new Map<string, string>();
+    for (const [notePath, entries] of byNote) {
+      const changed = await this.rewriteNote(notePath, content => {
+        for (const entry of entries) {
+          if (content.includes(entry.newText)) {
+            content = content.replaceAll(entry.newText, entry.originalText);
+            restored++;
+          } else {
+            skipped++;
+          }
+        }
+        written.set(notePath, content);
+        return content;
+      });
+      if (changed) notes++;
+    }
 
-      // Extract filename from wiki link: ![[filename.png]]
-      if (/^!\[\[/.test(replacement.originalText) && /\]\]$/.test(replacement.originalText)) {
-        fileName = replacement.originalText.slice(3, -2); // Remove ![[ and ]]
+    let deleted = 0;
+    let failed = 0;
+    let kept = 0;
+    if (deleteObjects) {
+      const objects = new Map<string, PublishJournalEntry>();
+      for (const entry of journal.entries) {
+        if (entry.created) objects.set(`${entry.profileId}:${entry.key}`, entry);
       }
-      // Extract filename from markdown image: ![alt](filename.png)
-      else {
-        const pathMatch = replacement.originalText.match(/!\[([^\]]*)\]\(([^)]+)\)/);
-        if (pathMatch) {
-          fileName = pathMatch[2];
+
+      // Never delete what another note (or an embed we could not restore) still links to
+      const stillLinked = new Set<string>();
+      for (const file of this.app.vault.getMarkdownFiles()) {
+        const content = written.get(file.path) ?? (await this.app.vault.cachedRead(file));
+        for (const entry of objects.values()) {
+          if (content.includes(entry.url)) stillLinked.add(entry.url);
         }
       }
 
-      const altText =
-        this.settings.useImageNameAsAltText && fileName
-          ? fileName
-              .replace(/\.(png|jpg|jpeg|gif|svg|webp|bmp|tiff|tif)$/i, '')
-              .replaceAll('-', ' ')
-              .replaceAll('_', ' ')
-          : '';
+      const unlinked = [...objects.values()].filter(entry => !stillLinked.has(entry.url));
+      kept = objects.size - unlinked.length;
+      ({ deleted, failed } = await this.deleteObjects(
+        unlinked
+          .flatMap(entry => [
+            entry,
+            ...(entry.variantKeys ?? []).map(key => ({ profileId: entry.profileId, key })),
+          ])
+      ));
+    }
 
-      // Use replaceAll for safety (like obsidian-image-upload-toolkit)
-      const isVideo =
-        ImageTagProcessor.isVideoAsset(fileName) ||
-        ImageTagProcessor.isVideoAsset(replacement.newUrl);
+    this.publishHistory.remove(journal);
+    await this.saveState();
+
+    const messages = [
+      this.t('revertFinished', { restored, notes }),
+      skipped > 0 ? this.t('revertSkipped', { count: skipped }) : '',
+      notRestored > 0 ? this.t('attachmentsNotRestored', { count: notRestored }) : '',
+      deleted > 0 ? this.t('objectsDeleted', { count: deleted }) : '',
+      failed > 0 ? this.t('objectsDeleteFailed', { count: failed }) : '',
+      kept > 0 ? this.t('objectsStillLinked', { count: kept }) : '',
+    ];
+    new Notice(messages.filter(Boolean).join('. '));
+  }
+
+  /**
+   * Compare the objects in each profile's bucket with the URLs notes link to,
+   * then open a review modal listing unused files and links to files that are gone.
+   */
+  async findOrphans(): Promise<void> {
+    const profiles = this.settings.profiles.filter(profile => this.uploaders.get(profile.id));
+    if (profiles.length === 0) {
+      new Notice(this.t('notConfigured', { profile: this.resolveProfile(null).name }));
+      return;
+    }
+    new Notice(this.t('scanningForOrphans'));
+
+    const references = new Map<string, MediaReference[]>(profiles.map(p => [p.id, []]));
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const content = await this.app.vault.cachedRead(file);
+      for (const url of ImageTagProcessor.extractMediaSources(content)) {
+        for (const profile of profiles) {
+          const key = keyFromUrl(url, profile);
+          if (key !== null) references.get(profile.id)?.push({ notePath: file.path, url, key });
+        }
+      }
+    }
+
+    const reports: OrphanReport[] = [];
+    for (const profile of profiles) {
+      const uploader = this.uploaders.get(profile.id) as Uploader;
+      const prefix = UploaderUtils.keyPrefix(profile.targetPath);
+      try {
+        const objects = await this.listAllObjects(uploader, prefix);
+        const { orphans, missing, unlisted } = compareBucket(
+          objects,
+          references.get(profile.id) ?? [],
+          prefix
+        );
+
+        // Links outside the prefix were not part of the listing, ask the bucket about each key
+        const gone = new Set<string>();
+        const unlistedKeys = [...new Set(unlisted.map(reference => reference.key))];
+        await runPool(unlistedKeys, this.settings.publishConcurrency, async key => {
+          if (!(await uploader.exists(key))) gone.add(key);
+        });
+
+        reports.push({
+          profile,
+          prefix,
+          orphans,
+          missing: [...missing, ...unlisted.filter(reference => gone.has(reference.key))],
+        });
+      } catch (error) {
+        reports.push({ profile, prefix, orphans: [], missing: [], error: error.message });
+      }
+    }
+
+    new OrphanReviewModal(this.app, this, reports).open();
+  }
+
+  private async listAllObjects(uploader: Uploader, prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await uploader.list(prefix, continuationToken);
+      objects.push(...page.objects);
+      continuationToken = page.continuationToken;
+    } while (continuationToken);
+    return objects;
+  }
+
+  /**
+   * Delete objects from their profile's bucket and forget them in the upload index,
+   * so the next upload of the same content does not reuse a dead URL.
+   * Every delete goes through here so stored delete tokens are used and cleared.
+   */
+  async deleteObjects(
+    objects: { profileId: string; key: string }[]
+  ): Promise<{ deleted: number; failed: number; errors: string[] }> {
+    let deleted = 0;
+    let failed = 0;
+    const errors: string[] = [];
+    await runPool(objects, this.settings.publishConcurrency, async ({ profileId, key }) => {
+      const uploader = this.uploaders.get(profileId);
+      try {
+        if (!uploader) throw new Error(this.t('notConfigured', { profile: profileId }));
+        const tokenKey = `${profileId}:${key}`;
+        await uploader.delete(key, this.settings.deleteTokens[tokenKey]);
+        delete this.settings.deleteTokens[tokenKey];
+        this.uploadIndex.deleteObject(profileId, key);
+        deleted++;
+      } catch (error) {
+        failed++;
+        errors.push(error.message);
+      }
+    });
+    await this.saveState();
+    return { deleted, failed, errors };
+  }
+
+  /**
+   * Rewrite a note through its open editor when there is one, so unsaved edits are kept,
+   * otherwise through the vault. Returns whether the content changed.
+   */
+  private async rewriteNote(
+    notePath: string,
+    transform: (content: string) => string
+  ): Promise<boolean> {
+    for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+      const view = leaf.view;
+      if (view instanceof MarkdownView && view.file?.path === notePath) {
+        const content = view.editor.getValue();
+        const updated = transform(content);
+        if (updated === content) return false;
+        view.editor.setValue(updated);
+        return true;
+      }
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(notePath);
+    if (!(file instanceof TFile)) return false;
+    const content = await this.app.vault.read(file);
+    const updated = transform(content);
+    if (updated === content) return false;
+    await this.app.vault.modify(file, updated);
+    return true;
+  }
+
+  private async startPublish(
+    targets: PublishTarget[],
+    scope: string,
+    dryRun: boolean
+  ): Promise<void> {
+    if (dryRun) {
+      await this.previewPublish(targets, scope);
+    } else {
+      await this.runPublish(targets, scope);
+    }
+  }
+
+  /**
+   * Find the vault file an embed points at, or null when it cannot be located.
+   */
+  private resolveLocalImage(imageTag: ImageTag, fileContext: TFile): TFile | null {
+    // Markdown links percent-encode spaces and the like, wiki links do not
+    let linkPath = imageTag.imagePath;
+    if (imageTag.syntax !== 'wikilink') {
+      try {
+        linkPath = decodeURI(linkPath);
+      } catch (_) {
+        // keep the path as written
+      }
+    }
+
+    // Resolve the image path using the same logic as obsidian-image-upload-toolkit
+    const { resolvedPath } = ImageTagProcessor.resolveImagePath(linkPath, this.app);
+    const normalizedPath = normalizePath(resolvedPath);
+
+    // 1) 기본 경로로 먼저 찾기
+    let file = this.app.vault.getAbstractFileByPath(normalizedPath) as TFile | null;
+
+    // 2) 실패하면, Obsidian의 링크 해석 로직(metadataCache)을 사용해서 전역 검색
+    if (!file) {
+      const linked = this.app.metadataCache.getFirstLinkpathDest(linkPath, fileContext.path);
+      if (linked) {
+        file = linked as TFile;
+      }
+    }
+
+    // 3) 그래도 못 찾으면, vault 내 모든 파일 이름을 전역 검색
+    if (!file) {
+      const imageName = linkPath.split('/').pop();
+      const allFiles = this.app.vault.getFiles();
+      file = allFiles.find((f: TFile) => f.name === imageName) ?? null;
+    }
+
+    return file;
+  }
+
+  private async publishLocalImage(
+    imageTag: ImageTag,
+    fileContext: TFile,
+    session: PublishSession
+  ): Promise<UploadOutcome | null> {
+    const file = this.resolveLocalImage(imageTag, fileContext);
+    if (!file) {
+      throw new Error(
+        `${this.t('fileNotFound')}: ${imageTag.imagePath}. Tried global search but could not locate the file.`
+      );
+    }
+
+    const profile = this.resolveProfile(fileContext);
+    return this.uploadOnce(session, `${profile.id}:${file.path}`, async () => {
+      session.progress.current = file.path;
+      session.update();
+
+      // Stream large files such as videos straight from disk, images to strip are read first
+      const adapter = this.app.vault.adapter;
+      if (
+        adapter instanceof FileSystemAdapter &&
+        this.multipartUploaderFor(fileContext, file.stat.size) &&
+        !this.needsStripping(mimeTypeFromExtension(file.extension))
+      ) {
+        const body = diskBody(
+          adapter.getFullPath(file.path),
+          file.name,
+          mimeTypeFromExtension(file.extension),
+          file.stat.size
+        );
+        const upload = await this.uploadLargeFile(body, fileContext, { signal: session.signal });
+        session.progress.bytes += file.stat.size;
+        return upload;
+      }
+
+      // Read file content
+      const fileContent = await this.app.vault.readBinary(file);
+
+      // Determine MIME type from file extension
+      const extension = file.extension?.toLowerCase() || '';
+      const mimeType = mimeTypeFromExtension(extension);
 
-      const newImageTag = isVideo
-        ? `<video controls src="${replacement.newUrl}"></video>`
-        : `![${altText}](${replacement.newUrl})`;
-      updatedContent = updatedContent.replaceAll(replacement.originalText, newImageTag);
+      // Create a File object from the binary data
+      const blob = new Blob([fileContent], { type: mimeType });
+      const fileObj = new File([blob], file.name, { type: mimeType });
+
+      // Upload to R2
+      const upload = await this.uploadFile(fileObj, fileContext);
+      session.progress.bytes += fileObj.size;
+      return upload;
+    });
+  }
+
+  private async publishExternalImage(
+    imageTag: ImageTag,
+    fileContext: TFile,
+    session: PublishSession
+  ): Promise<UploadOutcome | null> {
+    const profile = this.resolveProfile(fileContext);
+    return this.uploadOnce(session, `${profile.id}:${imageTag.imagePath}`, async () => {
+      session.progress.current = `${this.t('downloadExternalImage')}: ${imageTag.imagePath}`;
+      session.update();
+
+      // Download external image
+      const file = await this.downloadExternalImage(imageTag.imagePath);
+      if (!file) {
+        throw new Error(this.t('failedToDownloadUpload'));
+      }
+
+      // Upload to R2
+      const upload = await this.uploadFile(file, fileContext);
+      session.progress.bytes += file.size;
+      return upload;
+    });
+  }
+
+  /**
+   * Run an upload through the session limiter, once per source and profile,
+   * so an image embedded in many notes is uploaded a single time per run.
+   * Resolves to null when the run was cancelled before the upload started.
+   */
+  private uploadOnce(
+    session: PublishSession,
+    key: string,
+    task: () => Promise<UploadOutcome>
+  ): Promise<UploadOutcome | null> {
+    let upload = session.uploads.get(key);
+    if (!upload) {
+      upload = session.limit(() => (session.signal.aborted ? Promise.resolve(null) : task()));
+      session.uploads.set(key, upload);
     }
+    return upload;
+  }
+
+  async publishPageToR2(dryRun = false): Promise<void> {
+    const targets = this.currentNoteTargets();
+    if (targets) await this.startPublish(targets, 'current note', dryRun);
+  }
+
+  async publishCurrentFolderToR2(dryRun = false): Promise<void> {
+    const targets = this.currentFolderTargets();
+    if (targets) await this.startPublish(targets, 'current folder', dryRun);
+  }
 
-    return { updatedContent, successCount, errorCount };
+  async publishVaultToR2(dryRun = false): Promise<void> {
+    const targets = this.vaultTargets();
+    if (targets) await this.startPublish(targets, 'entire vault', dryRun);
   }
 
-  async publishPageToR2(): Promise<void> {
+  private currentNoteTargets(): PublishTarget[] | null {
     const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
     if (!activeView) {
       new Notice(this.t('noActiveMarkdownView'));
-      return;
+      return null;
     }
 
     const fileContext = activeView.file;
     if (!fileContext) {
       new Notice(this.t('noActiveFile'));
-      return;
+      return null;
     }
 
+    // Read from the editor so unsaved changes are kept
     const editor = activeView.editor;
-    const content = editor.getValue();
-
-    const { updatedContent, successCount, errorCount } =
-      await this.uploadLocalImagesInContent(content, fileContext);
-
-    if (successCount > 0) {
-      editor.setValue(updatedContent);
-      new Notice(
-        `${this.t('successfullyUploaded', { count: successCount.toString() })} in current note. ${errorCount} failed.`
-      );
-    } else if (errorCount > 0) {
-      new Notice(
-        `${this.t('failedToUploadAny')} in current note. ${errorCount} errors encountered.`
-      );
-    }
+    return [
+      {
+        file: fileContext,
+        read: async () => editor.getValue(),
+        write: async content => editor.setValue(content),
+      },
+    ];
   }
 
-  async publishCurrentFolderToR2(): Promise<void> {
+  private currentFolderTargets(): PublishTarget[] | null {
     const activeFile = this.app.workspace.getActiveFile();
     if (!activeFile) {
       new Notice('No active file found.');
-      return;
+      return null;
     }
 
     const folder = activeFile.parent;
     if (!folder) {
       new Notice(this.t('noActiveFileParent'));
-      return;
+      return null;
     }
 
     const allMarkdownFiles = this.app.vault.getMarkdownFiles();
@@ -1231,64 +3628,120 @@ export default class R2UploaderPlugin extends Plugin {
 
     if (targetFiles.length === 0) {
       new Notice(this.t('noMarkdownFilesInFolder'));
-      return;
-    }
-
-    new Notice(
-      `${this.t('startingUpload')} for ${targetFiles.length} markdown files in the current folder.`
-    );
-
-    let totalSuccess = 0;
-    let totalError = 0;
-
-    for (const file of targetFiles) {
-      const content = await this.app.vault.read(file);
-      const { updatedContent, successCount, errorCount } =
-        await this.uploadLocalImagesInContent(content, file);
-
-      if (successCount > 0) {
-        await this.app.vault.modify(file, updatedContent);
-      }
-
-      totalSuccess += successCount;
-      totalError += errorCount;
+      return null;
     }
 
-    new Notice(
-      `${this.t('finishedUpload')} for current folder. ${this.t('successfullyUploaded', { count: totalSuccess.toString() })} with ${totalError} errors.`
-    );
+    return targetFiles.map(file => this.vaultPublishTarget(file));
   }
 
-  async publishVaultToR2(): Promise<void> {
+  private vaultTargets(): PublishTarget[] | null {
     const allMarkdownFiles = this.app.vault.getMarkdownFiles();
     if (allMarkdownFiles.length === 0) {
       new Notice(this.t('noMarkdownFilesInVault'));
-      return;
+      return null;
     }
 
-    new Notice(
-      `${this.t('startingUpload')} for ${allMarkdownFiles.length} markdown files in the vault. This may take a while.`
-    );
+    return allMarkdownFiles.map(file => this.vaultPublishTarget(file));
+  }
 
-    let totalSuccess = 0;
-    let totalError = 0;
+  /**
+   * Download the remote images embedded in the targets into the vault and point the embeds
+   * at the local copies. Each URL is downloaded once per run, however many notes embed it.
+   */
+  async localizeImages(targets: PublishTarget[], scope: string): Promise<void> {
+    new Notice(this.t('startingLocalize', { count: targets.length, scope }));
+
+    const limit = createLimiter(this.settings.publishConcurrency);
+    const downloads = new Map<string, Promise<TFile>>();
+    let localized = 0;
+    let failed = 0;
+    let notesChanged = 0;
+
+    await runPool(targets, this.settings.publishConcurrency, async target => {
+      try {
+        let content = await target.read();
+        const tags = ImageTagProcessor.extractImageTags(content).filter(tag =>
+          this.shouldLocalize(tag.imagePath)
+        );
+        if (tags.length === 0) return;
+
+        const results = await Promise.all(
+          tags.map(async tag => {
+            const url = tag.imagePath;
+            let download = downloads.get(url);
+            if (!download) {
+              download = limit(() => this.downloadToVault(url, target.file));
+              downloads.set(url, download);
+            }
+            try {
+              return { tag, file: await download };
+            } catch (_) {
+              failed++;
+              return null;
+            }
+          })
+        );
 
-    for (const file of allMarkdownFiles) {
-      const content = await this.app.vault.read(file);
-      const { updatedContent, successCount, errorCount } =
-        await this.uploadLocalImagesInContent(content, file);
+        let changed = false;
+        for (const result of results) {
+          if (!result || !content.includes(result.tag.originalText)) continue;
+          content = content.replaceAll(
+            result.tag.originalText,
+            this.localEmbed(result.file, result.tag.altText, target.file)
+          );
+          localized++;
+          changed = true;
+        }
 
-      if (successCount > 0) {
-        await this.app.vault.modify(file, updatedContent);
+        if (changed) {
+          await target.write(content);
+          notesChanged++;
+        }
+      } catch (error) {
+        new Notice(`${this.t('failedToProcess')} "${target.file.name}": ${error.message}`);
+        failed++;
       }
+    });
+
+    const messages = [
+      this.t('localizeFinished', { count: localized, notes: notesChanged }),
+      failed > 0 ? this.t('localizeFailed', { count: failed }) : '',
+    ];
+    new Notice(messages.filter(Boolean).join('. '));
+  }
+
+  private shouldLocalize(url: string): boolean {
+    if (isObjectReference(url)) return true;
+    if (!/^https?:\/\//.test(url)) return false;
+    if (!this.settings.localizeOwnImagesOnly) return true;
+    return this.settings.profiles.some(profile => keyFromUrl(url, profile) !== null);
+  }
+
+  private async downloadToVault(url: string, noteFile: TFile): Promise<TFile> {
+    const file = await this.downloadExternalImage((await this.presignReference(url)) ?? url);
+    if (!file) throw new Error(this.t('failedToDownloadUpload'));
 
-      totalSuccess += successCount;
-      totalError += errorCount;
+    let fileName = file.name;
+    try {
+      fileName = decodeURIComponent(fileName);
+    } catch (_) {
+      // keep the encoded name
     }
 
-    new Notice(
-      `${this.t('finishedUpload')} for entire vault. ${this.t('successfullyUploaded', { count: totalSuccess.toString() })} with ${totalError} errors.`
+    const attachmentPath = await this.app.fileManager.getAvailablePathForAttachment(
+      fileName,
+      noteFile.path
     );
+    return this.app.vault.createBinary(attachmentPath, await file.arrayBuffer());
+  }
+
+  private localEmbed(file: TFile, altText: string, noteFile: TFile): string {
+    if (this.settings.localizeLinkStyle === 'wikilink') {
+      return `![[${this.app.metadataCache.fileToLinktext(file, noteFile.path)}]]`;
+    }
+    const noteFolder = noteFile.parent && noteFile.parent.path !== '/' ? noteFile.parent.path : '';
+    const relativePath = path.posix.relative(noteFolder, file.path);
+    return `![${altText}](${encodeURI(relativePath)})`;
   }
 }
 
@@ -1403,21 +3856,707 @@ class PublishPageModal extends Modal {
   }
 }
 
-class R2UploaderSettingTab extends PluginSettingTab {
+class PublishProgressModal extends Modal {
   plugin: R2UploaderPlugin;
-
-  constructor(app: App, plugin: R2UploaderPlugin) {
-    super(app, plugin);
+  isOpen = false;
+  private progress: PublishProgress;
+  private onCancel: () => void;
+  private cancelRequested = false;
+  private frame: number | null = null;
+  private autoCloseScheduled = false;
+  private fillEl: HTMLElement;
+  private textEl: HTMLElement;
+  private currentEl: HTMLElement;
+  private errorsEl: HTMLElement;
+  private buttonEl: HTMLButtonElement;
+
+  constructor(app: App, plugin: R2UploaderPlugin, progress: PublishProgress, onCancel: () => void) {
+    super(app);
     this.plugin = plugin;
+    this.progress = progress;
+    this.onCancel = onCancel;
   }
 
-  display(): void {
-    const { containerEl } = this;
+  onOpen() {
+    this.isOpen = true;
+    this.titleEl.setText(this.plugin.t('publishProgress'));
+    this.modalEl.addClass('upload-progress-modal');
 
-    containerEl.empty();
-    containerEl.createEl('h1', { text: this.plugin.t('uploadSettings') });
+    const { contentEl } = this;
+    const bar = contentEl.createDiv('progress-bar');
+    this.fillEl = bar.createDiv('progress-fill');
+    this.textEl = contentEl.createDiv('progress-text');
+    this.currentEl = contentEl.createDiv('progress-text');
+    this.errorsEl = contentEl.createDiv('progress-text');
+
+    const buttonContainer = contentEl.createDiv('modal-button-container');
+    this.buttonEl = buttonContainer.createEl('button', { text: this.plugin.t('cancel') });
+    this.buttonEl.onclick = () => {
+      if (this.progress.finished) {
+        this.close();
+        return;
+      }
+      this.cancelRequested = true;
+      this.onCancel();
+      this.render();
+    };
 
-    // Language selection
+    this.render();
+  }
+
+  /**
+   * Coalesce updates from concurrent uploads into one render per frame.
+   */
+  scheduleRender() {
+    if (this.frame !== null) return;
+    this.frame = window.requestAnimationFrame(() => {
+      this.frame = null;
+      this.render();
+    });
+  }
+
+  private render() {
+    if (!this.isOpen) return;
+    const p = this.progress;
+    const ratio = p.imagesTotal > 0 ? p.imagesDone / p.imagesTotal : p.filesDone / Math.max(1, p.filesTotal);
+    this.fillEl.style.width = `${Math.round(ratio * 100)}%`;
+
+    this.textEl.setText(
+      [
+        this.plugin.t('progressFiles', { done: p.filesDone, total: p.filesTotal }),
+        this.plugin.t('progressImages', { done: p.imagesDone, total: p.imagesTotal }),
+        this.plugin.t('progressBytes', { size: UploaderUtils.formatBytes(p.bytes) }),
+      ].join(' · ')
+    );
+    this.currentEl.setText(p.current ? this.plugin.t('progressCurrent', { item: p.current }) : '');
+
+    this.errorsEl.empty();
+    if (p.errors.length > 0) {
+      const details = this.errorsEl.createEl('details');
+      details.createEl('summary', { text: this.plugin.t('progressErrors', { count: p.errors.length }) });
+      const list = details.createEl('ul');
+      for (const error of p.errors) list.createEl('li', { text: error });
+    }
+
+    if (p.finished) {
+      this.buttonEl.setText(this.plugin.t('close'));
+      this.buttonEl.disabled = false;
+      this.currentEl.setText(p.cancelled ? this.plugin.t('publishCancelled') : '');
+      // Leave the modal up when there is something to read
+      if (p.errors.length === 0 && !this.autoCloseScheduled) {
+        this.autoCloseScheduled = true;
+        window.setTimeout(() => this.close(), 3000);
+      }
+    } else if (this.cancelRequested) {
+      this.buttonEl.setText(this.plugin.t('cancelling'));
+      this.buttonEl.disabled = true;
+    }
+  }
+
+  onClose() {
+    // Closing only hides the modal, the run goes on and reports to the status bar
+    this.isOpen = false;
+    if (this.frame !== null) window.cancelAnimationFrame(this.frame);
+    this.frame = null;
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+interface PublishProgress {
+  filesTotal: number;
+  filesDone: number;
+  imagesTotal: number;
+  imagesDone: number;
+  bytes: number;
+  current: string;
+  errors: string[];
+  finished: boolean;
+  cancelled: boolean;
+}
+
+class RevertPublishModal extends Modal {
+  plugin: R2UploaderPlugin;
+  private journal: PublishJournal;
+  private deleteObjects = false;
+
+  constructor(app: App, plugin: R2UploaderPlugin, journal: PublishJournal) {
+    super(app);
+    this.plugin = plugin;
+    this.journal = journal;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const { entries } = this.journal;
+    contentEl.createEl('h2', { text: this.plugin.t('revertPublishTitle') });
+    contentEl.createEl('p', {
+      text: this.plugin.t('revertPublishDesc', {
+        count: entries.length,
+        notes: new Set(entries.map(e => e.notePath)).size,
+        scope: this.journal.scope,
+        date: new Date(this.journal.startedAt).toLocaleString(),
+      }),
+    });
+
+    const created = new Set(entries.filter(e => e.created).map(e => `${e.profileId}:${e.key}`));
+    if (created.size > 0) {
+      new Setting(contentEl)
+        .setName(this.plugin.t('deleteUploadedObjects'))
+        .setDesc(this.plugin.t('deleteUploadedObjectsDesc', { count: created.size }))
+        .addToggle(toggle =>
+          toggle.setValue(this.deleteObjects).onChange(value => {
+            this.deleteObjects = value;
+          })
+        );
+    }
+
+    const buttonContainer = contentEl.createDiv();
+    buttonContainer.addClass('r2-uploader-button-container');
+
+    const revertButton = buttonContainer.createEl('button', { text: this.plugin.t('revert') });
+    revertButton.addClass('mod-cta');
+    revertButton.onclick = async () => {
+      this.close();
+      await this.plugin.revertPublish(this.journal, this.deleteObjects);
+    };
+
+    const cancelButton = buttonContainer.createEl('button', { text: this.plugin.t('cancel') });
+    cancelButton.onclick = () => {
+      this.close();
+    };
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+class PublishPreviewModal extends Modal {
+  plugin: R2UploaderPlugin;
+  private preview: PublishPreview;
+  private onPublish: () => Promise<void>;
+
+  constructor(
+    app: App,
+    plugin: R2UploaderPlugin,
+    preview: PublishPreview,
+    onPublish: () => Promise<void>
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.preview = preview;
+    this.onPublish = onPublish;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const p = this.preview;
+    this.titleEl.setText(this.plugin.t('publishPreview'));
+
+    const changed = p.notes.filter(n => n.uploads.length + n.downloads.length > 0).length;
+    const summary = contentEl.createEl('ul');
+    summary.createEl('li', {
+      text: this.plugin.t('previewNotes', { changed, total: p.totalNotes }),
+    });
+    summary.createEl('li', {
+      text: this.plugin.t('previewUploads', {
+        count: p.uploads,
+        size: UploaderUtils.formatBytes(p.bytes),
+      }),
+    });
+    if (p.downloads > 0) {
+      summary.createEl('li', { text: this.plugin.t('previewDownloads', { count: p.downloads }) });
+    }
+    if (p.unresolved > 0) {
+      summary.createEl('li', { text: this.plugin.t('previewUnresolved', { count: p.unresolved }) });
+    }
+
+    if (p.notes.length === 0) {
+      contentEl.createEl('p', { text: this.plugin.t('previewNothing') });
+    }
+
+    const notesEl = contentEl.createDiv('r2-uploader-preview-notes');
+    for (const note of p.notes) {
+      const details = notesEl.createEl('details');
+      details.createEl('summary', { text: note.file.path });
+      details.createDiv({ text: this.plugin.t('previewProfile', { profile: note.profile }) });
+      const list = details.createEl('ul');
+      for (const path of note.uploads) {
+        list.createEl('li', { text: `${this.plugin.t('previewLocal')}: ${path}` });
+      }
+      for (const url of note.downloads) {
+        list.createEl('li', { text: `${this.plugin.t('previewExternal')}: ${url}` });
+      }
+      for (const path of note.unresolved) {
+        list.createEl('li', {
+          text: `${this.plugin.t('previewNotFound')}: ${path}`,
+          cls: 'r2-uploader-preview-missing',
+        });
+      }
+    }
+
+    const buttonContainer = contentEl.createDiv();
+    buttonContainer.addClass('r2-uploader-button-container');
+
+    const publishButton = buttonContainer.createEl('button', { text: this.plugin.t('publishNow') });
+    publishButton.addClass('mod-cta');
+    publishButton.disabled = changed === 0;
+    publishButton.onclick = async () => {
+      this.close();
+      await this.onPublish();
+    };
+
+    const cancelButton = buttonContainer.createEl('button', { text: this.plugin.t('cancel') });
+    cancelButton.onclick = () => {
+      this.close();
+    };
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// What a publish run would do, collected without uploading anything
+interface PublishPreview {
+  totalNotes: number;
+  // Only notes that embed something publishable
+  notes: PublishPreviewNote[];
+  // Unique uploads and their size, counted once per profile like the real run
+  uploads: number;
+  bytes: number;
+  downloads: number;
+  unresolved: number;
+}
+
+interface PublishPreviewNote {
+  file: TFile;
+  profile: string;
+  uploads: string[];
+  downloads: string[];
+  unresolved: string[];
+}
+
+class OrphanReviewModal extends Modal {
+  plugin: R2UploaderPlugin;
+  private reports: OrphanReport[];
+  // Keys picked for deletion, per profile id
+  private selected = new Map<string, Set<string>>();
+  private deleteButton: HTMLButtonElement;
+
+  constructor(app: App, plugin: R2UploaderPlugin, reports: OrphanReport[]) {
+    super(app);
+    this.plugin = plugin;
+    this.reports = reports;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(this.plugin.t('orphanReport'));
+
+    for (const report of this.reports) {
+      contentEl.createEl('h3', { text: report.profile.name });
+      if (report.error) {
+        contentEl.createEl('p', { text: `${this.plugin.t('listFailed')}: ${report.error}` });
+        continue;
+      }
+
+      const selected = new Set(report.orphans.map(object => object.key));
+      this.selected.set(report.profile.id, selected);
+      const totalSize = report.orphans.reduce((sum, object) => sum + object.size, 0);
+      contentEl.createEl('p', {
+        text:
+          report.orphans.length > 0
+            ? this.plugin.t('orphansFound', {
+                count: report.orphans.length,
+                size: UploaderUtils.formatBytes(totalSize),
+                prefix: report.prefix,
+              })
+            : this.plugin.t('noOrphans', { prefix: report.prefix }),
+      });
+
+      if (report.orphans.length > 0) {
+        const uploader = this.plugin.getUploader(report.profile.id);
+        const listEl = contentEl.createDiv('r2-uploader-orphan-list');
+        for (const object of report.orphans) {
+          const itemEl = listEl.createDiv('r2-uploader-bucket-item');
+          const checkbox = itemEl.createEl('input', { type: 'checkbox' });
+          checkbox.checked = true;
+          checkbox.onchange = () => {
+            if (checkbox.checked) selected.add(object.key);
+            else selected.delete(object.key);
+            this.updateDeleteButton();
+          };
+
+          const thumbEl = itemEl.createDiv('r2-uploader-bucket-thumb');
+          if (uploader && ImageTagProcessor.isImageAsset(object.key)) {
+            const imgEl = thumbEl.createEl('img', { attr: { loading: 'lazy', alt: '' } });
+            this.plugin.displayUrl(uploader.publicUrl(object.key)).then(src => (imgEl.src = src));
+          } else {
+            setIcon(thumbEl, 'file');
+          }
+
+          const infoEl = itemEl.createDiv('r2-uploader-bucket-info');
+          infoEl.createDiv({ text: object.key, cls: 'r2-uploader-bucket-name' });
+          infoEl.createDiv({
+            text: UploaderUtils.formatBytes(object.size),
+            cls: 'r2-uploader-bucket-meta',
+          });
+        }
+      }
+
+      if (report.missing.length > 0) {
+        contentEl.createEl('p', {
+          text: this.plugin.t('missingObjects', { count: report.missing.length }),
+        });
+        const missingEl = contentEl.createEl('ul', { cls: 'r2-uploader-orphan-list' });
+        for (const reference of report.missing) {
+          const itemEl = missingEl.createEl('li');
+          const noteLink = itemEl.createEl('a', { text: reference.notePath });
+          noteLink.onclick = () => {
+            this.close();
+            this.app.workspace.openLinkText(reference.notePath, '');
+          };
+          itemEl.appendText(` → ${reference.key}`);
+        }
+      }
+    }
+
+    const buttonContainer = contentEl.createDiv();
+    buttonContainer.addClass('r2-uploader-button-container');
+
+    this.deleteButton = buttonContainer.createEl('button');
+    this.deleteButton.addClass('mod-warning');
+    this.deleteButton.onclick = () => {
+      const objects = [...this.selected].flatMap(([profileId, keys]) =>
+        [...keys].map(key => ({ profileId, key }))
+      );
+      new ConfirmModal(
+        this.app,
+        this.plugin,
+        this.plugin.t('deleteObjectsConfirm', { count: objects.length }),
+        this.plugin.t('delete'),
+        async () => {
+          this.close();
+          const { deleted, failed } = await this.plugin.deleteObjects(objects);
+          const messages = [
+            this.plugin.t('objectsDeleted', { count: deleted }),
+            failed > 0 ? this.plugin.t('objectsDeleteFailed', { count: failed }) : '',
+          ];
+          new Notice(messages.filter(Boolean).join('. '));
+        }
+      ).open();
+    };
+    this.updateDeleteButton();
+
+    const closeButton = buttonContainer.createEl('button', { text: this.plugin.t('close') });
+    closeButton.onclick = () => {
+      this.close();
+    };
+  }
+
+  private updateDeleteButton() {
+    const count = [...this.selected.values()].reduce((sum, keys) => sum + keys.size, 0);
+    this.deleteButton.setText(this.plugin.t('deleteSelected', { count }));
+    this.deleteButton.disabled = count === 0;
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+interface OrphanReport {
+  profile: UploadProfile;
+  // The part of the bucket that was listed
+  prefix: string;
+  orphans: StoredObject[];
+  missing: MediaReference[];
+  error?: string;
+}
+
+class ConfirmModal extends Modal {
+  plugin: R2UploaderPlugin;
+  private message: string;
+  private confirmText: string;
+  private onConfirm: () => Promise<void>;
+
+  constructor(
+    app: App,
+    plugin: R2UploaderPlugin,
+    message: string,
+    confirmText: string,
+    onConfirm: () => Promise<void>
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.message = message;
+    this.confirmText = confirmText;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('p', { text: this.message });
+
+    const buttonContainer = contentEl.createDiv();
+    buttonContainer.addClass('r2-uploader-button-container');
+
+    const confirmButton = buttonContainer.createEl('button', { text: this.confirmText });
+    confirmButton.addClass('mod-warning');
+    confirmButton.onclick = async () => {
+      this.close();
+      await this.onConfirm();
+    };
+
+    const cancelButton = buttonContainer.createEl('button', { text: this.plugin.t('cancel') });
+    cancelButton.onclick = () => {
+      this.close();
+    };
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+const VIEW_TYPE_BUCKET_BROWSER = 'r2-uploader-bucket-browser';
+
+class BucketBrowserView extends ItemView {
+  plugin: R2UploaderPlugin;
+  private profileId: string;
+  private prefix = '';
+  private continuationToken: string | undefined;
+  private loadedCount = 0;
+  // Bumped on every reload so pages of an abandoned listing are dropped
+  private generation = 0;
+  private listEl: HTMLElement;
+  private footerEl: HTMLElement;
+
+  constructor(leaf: WorkspaceLeaf, plugin: R2UploaderPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_BUCKET_BROWSER;
+  }
+
+  getDisplayText(): string {
+    return this.plugin.t('bucketBrowser');
+  }
+
+  getIcon(): string {
+    return 'cloud';
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('r2-uploader-bucket-browser');
+
+    const toolbarEl = contentEl.createDiv('r2-uploader-bucket-toolbar');
+    const profileDropdown = new DropdownComponent(toolbarEl);
+    for (const profile of this.plugin.settings.profiles) {
+      profileDropdown.addOption(profile.id, profile.name);
+    }
+    this.profileId = this.plugin.resolveProfile(null).id;
+    this.prefix = this.defaultPrefix();
+    profileDropdown.setValue(this.profileId);
+
+    const prefixInput = new TextComponent(toolbarEl)
+      .setPlaceholder(this.plugin.t('bucketPrefix'))
+      .setValue(this.prefix);
+    prefixInput.inputEl.addEventListener('keydown', event => {
+      if (event.key === 'Enter') {
+        this.prefix = prefixInput.getValue();
+        this.reload();
+      }
+    });
+
+    profileDropdown.onChange(value => {
+      this.profileId = value;
+      this.prefix = this.defaultPrefix();
+      prefixInput.setValue(this.prefix);
+      this.reload();
+    });
+
+    new ExtraButtonComponent(toolbarEl)
+      .setIcon('refresh-cw')
+      .setTooltip(this.plugin.t('refresh'))
+      .onClick(() => {
+        this.prefix = prefixInput.getValue();
+        this.reload();
+      });
+
+    this.listEl = contentEl.createDiv('r2-uploader-bucket-list');
+    this.footerEl = contentEl.createDiv('r2-uploader-bucket-footer');
+
+    await this.reload();
+  }
+
+  async onClose() {
+    this.generation++;
+    this.contentEl.empty();
+  }
+
+  private defaultPrefix(): string {
+    const profile = this.plugin.settings.profiles.find(p => p.id === this.profileId);
+    return profile ? UploaderUtils.keyPrefix(profile.targetPath) : '';
+  }
+
+  private async reload() {
+    this.generation++;
+    this.continuationToken = undefined;
+    this.loadedCount = 0;
+    this.listEl.empty();
+    await this.loadPage(this.generation);
+  }
+
+  private async loadPage(generation: number) {
+    const uploader = this.plugin.getUploader(this.profileId);
+    if (!uploader) {
+      const profile = this.plugin.settings.profiles.find(p => p.id === this.profileId);
+      this.footerEl.setText(
+        this.plugin.t('notConfigured', { profile: profile?.name ?? this.profileId })
+      );
+      return;
+    }
+
+    this.footerEl.setText(this.plugin.t('loading'));
+    try {
+      const page = await uploader.list(this.prefix, this.continuationToken);
+      if (generation !== this.generation) return;
+      this.continuationToken = page.continuationToken;
+      this.loadedCount += page.objects.length;
+      for (const object of page.objects) {
+        this.renderObject(uploader, object);
+      }
+    } catch (error) {
+      if (generation !== this.generation) return;
+      this.footerEl.setText(`${this.plugin.t('listFailed')}: ${error.message}`);
+      return;
+    }
+
+    this.footerEl.empty();
+    this.footerEl.createSpan({
+      text:
+        this.loadedCount === 0
+          ? this.plugin.t('noObjects')
+          : this.plugin.t('objectsLoaded', { count: this.loadedCount }),
+    });
+    if (this.continuationToken) {
+      const moreButton = this.footerEl.createEl('button', { text: this.plugin.t('loadMore') });
+      moreButton.onclick = () => this.loadPage(generation);
+    }
+  }
+
+  private renderObject(uploader: Uploader, object: StoredObject) {
+    const url = uploader.publicUrl(object.key);
+    const itemEl = this.listEl.createDiv('r2-uploader-bucket-item');
+
+    const thumbEl = itemEl.createDiv('r2-uploader-bucket-thumb');
+    if (ImageTagProcessor.isImageAsset(object.key)) {
+      // Lazy loading keeps long listings from fetching every image at once
+      const imgEl = thumbEl.createEl('img', { attr: { loading: 'lazy', alt: '' } });
+      this.plugin.displayUrl(url).then(src => (imgEl.src = src));
+    } else {
+      setIcon(thumbEl, ImageTagProcessor.isVideoAsset(object.key) ? 'film' : 'file');
+    }
+
+    const infoEl = itemEl.createDiv('r2-uploader-bucket-info');
+    infoEl.createDiv({
+      text: object.key.substring(this.prefix.length) || object.key,
+      cls: 'r2-uploader-bucket-name',
+      attr: { title: object.key },
+    });
+    infoEl.createDiv({
+      text: [
+        UploaderUtils.formatBytes(object.size),
+        object.lastModified ? object.lastModified.toLocaleString() : '',
+      ]
+        .filter(Boolean)
+        .join(' · '),
+      cls: 'r2-uploader-bucket-meta',
+    });
+
+    const actionsEl = itemEl.createDiv('r2-uploader-bucket-actions');
+    const embed = this.plugin.embedFor(url, object.key, {
+      bytes: object.size,
+      profile: this.plugin.settings.profiles.find(p => p.id === this.profileId),
+    });
+
+    new ExtraButtonComponent(actionsEl)
+      .setIcon('copy')
+      .setTooltip(this.plugin.t('copyEmbed'))
+      .onClick(async () => {
+        await navigator.clipboard.writeText(embed);
+        new Notice(this.plugin.t('copiedToClipboard'));
+      });
+
+    new ExtraButtonComponent(actionsEl)
+      .setIcon('text-cursor-input')
+      .setTooltip(this.plugin.t('insertAtCursor'))
+      .onClick(() => {
+        if (!this.plugin.insertAtCursor(embed)) {
+          new Notice(this.plugin.t('noActiveMarkdownView'));
+        }
+      });
+
+    new ExtraButtonComponent(actionsEl)
+      .setIcon('external-link')
+      .setTooltip(this.plugin.t('openObject'))
+      .onClick(async () => {
+        window.open(await this.plugin.displayUrl(url));
+      });
+
+    new ExtraButtonComponent(actionsEl)
+      .setIcon('trash')
+      .setTooltip(this.plugin.t('delete'))
+      .onClick(() => {
+        new ConfirmModal(
+          this.app,
+          this.plugin,
+          this.plugin.t('deleteObjectConfirm', { key: object.key }),
+          this.plugin.t('delete'),
+          async () => {
+            const { errors } = await this.plugin.deleteObjects([
+              { profileId: this.profileId, key: object.key },
+            ]);
+            if (errors.length > 0) {
+              new Notice(`${this.plugin.t('deleteFailed')}: ${errors[0]}`);
+              return;
+            }
+            itemEl.remove();
+            this.loadedCount--;
+            new Notice(`${this.plugin.t('deleted')}: ${object.key}`);
+          }
+        ).open();
+      });
+  }
+}
+
+class R2UploaderSettingTab extends PluginSettingTab {
+  plugin: R2UploaderPlugin;
+  private editingProfileId: string | null = null;
+
+  constructor(app: App, plugin: R2UploaderPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display(): void {
+    const { containerEl } = this;
+
+    containerEl.empty();
+    containerEl.createEl('h1', { text: this.plugin.t('uploadSettings') });
+
+    // Language selection
     new Setting(containerEl)
       .setName(this.plugin.t('language'))
       .setDesc(this.plugin.t('languageDesc'))
@@ -1456,9 +4595,26 @@ class R2UploaderSettingTab extends PluginSettingTab {
           .onChange(async value => {
             this.plugin.settings.updateOriginalDocument = value;
             await this.plugin.saveSettings();
+            // Show or hide the export folder
+            this.display();
           })
       );
 
+    if (!this.plugin.settings.updateOriginalDocument) {
+      new Setting(containerEl)
+        .setName(this.plugin.t('publishExportFolder'))
+        .setDesc(this.plugin.t('publishExportFolderDesc'))
+        .addText(text =>
+          text
+            .setPlaceholder('Export')
+            .setValue(this.plugin.settings.publishExportFolder)
+            .onChange(async value => {
+              this.plugin.settings.publishExportFolder = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     new Setting(containerEl)
       .setName(this.plugin.t('ignoreNoteProperties'))
       .setDesc(this.plugin.t('ignoreNotePropertiesDesc'))
@@ -1505,85 +4661,705 @@ class R2UploaderSettingTab extends PluginSettingTab {
           })
       );
 
-    // CloudFlare R2 설정
-    containerEl.createEl('h2', { text: this.plugin.t('cloudflareR2Settings') });
+    new Setting(containerEl)
+      .setName(this.plugin.t('overwritePolicy'))
+      .setDesc(this.plugin.t('overwritePolicyDesc'))
+      .addDropdown(dropdown =>
+        dropdown
+          .addOption('overwrite', this.plugin.t('overwriteReplace'))
+          .addOption('reuse', this.plugin.t('overwriteReuse'))
+          .addOption('suffix', this.plugin.t('overwriteSuffix'))
+          .addOption('fail', this.plugin.t('overwriteFail'))
+          .setValue(this.plugin.settings.overwritePolicy)
+          .onChange(async value => {
+            this.plugin.settings.overwritePolicy = value as OverwritePolicy;
+            await this.plugin.saveSettings();
+          })
+      );
 
     new Setting(containerEl)
-      .setName(this.plugin.t('cloudflareR2AccessKeyID'))
-      .setDesc(this.plugin.t('cloudflareR2AccessKeyIDDesc'))
-      .addText(text =>
-        text
-          .setPlaceholder('Enter your access key ID')
-          .setValue(this.plugin.settings.accessKeyId)
+      .setName(this.plugin.t('attachmentCleanup'))
+      .setDesc(this.plugin.t('attachmentCleanupDesc'))
+      .addDropdown(dropdown =>
+        dropdown
+          .addOption('keep', this.plugin.t('cleanupKeep'))
+          .addOption('system-trash', this.plugin.t('cleanupSystemTrash'))
+          .addOption('obsidian-trash', this.plugin.t('cleanupObsidianTrash'))
+          .addOption('archive', this.plugin.t('cleanupArchive'))
+          .setValue(this.plugin.settings.attachmentCleanup)
           .onChange(async value => {
-            this.plugin.settings.accessKeyId = value;
+            this.plugin.settings.attachmentCleanup = value as AttachmentCleanup;
             await this.plugin.saveSettings();
+            this.display();
           })
       );
 
+    if (this.plugin.settings.attachmentCleanup === 'archive') {
+      new Setting(containerEl)
+        .setName(this.plugin.t('attachmentArchiveFolder'))
+        .setDesc(this.plugin.t('attachmentArchiveFolderDesc'))
+        .addText(text =>
+          text
+            .setPlaceholder('Archive/Attachments')
+            .setValue(this.plugin.settings.attachmentArchiveFolder)
+            .onChange(async value => {
+              this.plugin.settings.attachmentArchiveFolder = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     new Setting(containerEl)
-      .setName(this.plugin.t('cloudflareR2SecretAccessKey'))
-      .setDesc(this.plugin.t('cloudflareR2SecretAccessKeyDesc'))
-      .addText(text =>
-        text
-          .setPlaceholder('Enter your secret access key')
-          .setValue(this.plugin.settings.secretAccessKey)
+      .setName(this.plugin.t('deduplicateUploads'))
+      .setDesc(this.plugin.t('deduplicateUploadsDesc'))
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.deduplicateUploads)
           .onChange(async value => {
-            this.plugin.settings.secretAccessKey = value;
+            this.plugin.settings.deduplicateUploads = value;
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName(this.plugin.t('cloudflareR2Endpoint'))
-      .setDesc(this.plugin.t('cloudflareR2EndpointDesc'))
-      .addText(text =>
-        text
-          .setPlaceholder('Enter your R2 endpoint')
-          .setValue(this.plugin.settings.endpoint)
+      .setName(this.plugin.t('verifyDeduplicatedUploads'))
+      .setDesc(this.plugin.t('verifyDeduplicatedUploadsDesc'))
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.verifyDeduplicatedUploads)
           .onChange(async value => {
-            this.plugin.settings.endpoint = value;
+            this.plugin.settings.verifyDeduplicatedUploads = value;
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName(this.plugin.t('cloudflareR2BucketName'))
-      .setDesc(this.plugin.t('cloudflareR2BucketNameDesc'))
-      .addText(text =>
-        text
-          .setPlaceholder('Enter your bucket name')
-          .setValue(this.plugin.settings.bucketName)
+      .setName(this.plugin.t('clearUploadIndex'))
+      .setDesc(
+        this.plugin.t('clearUploadIndexDesc', { count: this.plugin.uploadIndex.size.toString() })
+      )
+      .addButton(button =>
+        button.setButtonText(this.plugin.t('clear')).onClick(async () => {
+          this.plugin.uploadIndex.clear();
+          await this.plugin.saveState();
+          this.display();
+        })
+      );
+
+    // 이미지 처리 설정
+    containerEl.createEl('h2', { text: this.plugin.t('imageProcessing') });
+
+    new Setting(containerEl)
+      .setName(this.plugin.t('stripMetadata'))
+      .setDesc(this.plugin.t('stripMetadataDesc'))
+      .addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.stripMetadata).onChange(async value => {
+          this.plugin.settings.stripMetadata = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.t('keepImageOrientation'))
+      .setDesc(this.plugin.t('keepImageOrientationDesc'))
+      .addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.keepImageOrientation).onChange(async value => {
+          this.plugin.settings.keepImageOrientation = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.t('processImages'))
+      .setDesc(this.plugin.t('processImagesDesc'))
+      .addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.processImages).onChange(async value => {
+          this.plugin.settings.processImages = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    const numberSetting = (
+      name: keyof Translations,
+      desc: keyof Translations,
+      key:
+        | 'maxImageWidth'
+        | 'maxImageHeight'
+        | 'skipProcessingBelowKB'
+        | 'uploadConcurrency'
+        | 'uploadRetries'
+        | 'publishConcurrency'
+        | 'multipartThresholdMB'
+        | 'multipartPartSizeMB'
+        | 'presignedUrlLifetimeMinutes'
+        | 'sharedLinkLifetimeHours',
+      min = 0
+    ) =>
+      new Setting(containerEl)
+        .setName(this.plugin.t(name))
+        .setDesc(this.plugin.t(desc))
+        .addText(text => {
+          text.inputEl.type = 'number';
+          text
+            .setPlaceholder('0')
+            .setValue(this.plugin.settings[key].toString())
+            .onChange(async value => {
+              const parsed = parseInt(value, 10);
+              this.plugin.settings[key] = isNaN(parsed) || parsed < min ? min : parsed;
+              await this.plugin.saveSettings();
+            });
+        });
+
+    numberSetting('maxImageWidth', 'maxImageWidthDesc', 'maxImageWidth');
+    numberSetting('maxImageHeight', 'maxImageHeightDesc', 'maxImageHeight');
+
+    new Setting(containerEl)
+      .setName(this.plugin.t('imageQuality'))
+      .setDesc(this.plugin.t('imageQualityDesc'))
+      .addSlider(slider =>
+        slider
+          .setLimits(1, 100, 1)
+          .setDynamicTooltip()
+          .setValue(this.plugin.settings.imageQuality)
           .onChange(async value => {
-            this.plugin.settings.bucketName = value;
+            this.plugin.settings.imageQuality = value;
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName(this.plugin.t('targetPath'))
-      .setDesc(this.plugin.t('targetPathDesc'))
-      .addText(text =>
-        text
-          .setPlaceholder('Enter path')
-          .setValue(this.plugin.settings.targetPath)
+      .setName(this.plugin.t('imageOutputFormat'))
+      .setDesc(this.plugin.t('imageOutputFormatDesc'))
+      .addDropdown(dropdown =>
+        dropdown
+          .addOption('original', this.plugin.t('imageFormatOriginal'))
+          .addOption('jpeg', 'JPEG')
+          .addOption('webp', 'WebP')
+          .addOption('avif', 'AVIF')
+          .setValue(this.plugin.settings.imageOutputFormat)
+          .onChange(async value => {
+            this.plugin.settings.imageOutputFormat = value as ImageOutputFormat;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    numberSetting('skipProcessingBelow', 'skipProcessingBelowDesc', 'skipProcessingBelowKB');
+
+    new Setting(containerEl)
+      .setName(this.plugin.t('responsiveImages'))
+      .setDesc(this.plugin.t('responsiveImagesDesc'))
+      .addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.responsiveImages).onChange(async value => {
+          this.plugin.settings.responsiveImages = value;
+          await this.plugin.saveSettings();
+          // Show or hide the responsive options
+          this.display();
+        })
+      );
+
+    if (this.plugin.settings.responsiveImages) {
+      new Setting(containerEl)
+        .setName(this.plugin.t('responsiveWidths'))
+        .setDesc(this.plugin.t('responsiveWidthsDesc'))
+        .addText(text =>
+          text
+            .setPlaceholder('480, 960, 1920')
+            .setValue(this.plugin.settings.responsiveWidths)
+            .onChange(async value => {
+              this.plugin.settings.responsiveWidths = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName(this.plugin.t('responsiveMarkup'))
+        .setDesc(this.plugin.t('responsiveMarkupDesc'))
+        .addDropdown(dropdown =>
+          dropdown
+            .addOption('srcset', this.plugin.t('responsiveMarkupSrcset'))
+            .addOption('picture', this.plugin.t('responsiveMarkupPicture'))
+            .setValue(this.plugin.settings.responsiveMarkup)
+            .onChange(async value => {
+              this.plugin.settings.responsiveMarkup = value as ResponsiveMarkup;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName(this.plugin.t('responsiveSizes'))
+        .setDesc(this.plugin.t('responsiveSizesDesc'))
+        .addText(text =>
+          text
+            .setPlaceholder('100vw')
+            .setValue(this.plugin.settings.responsiveSizes)
+            .onChange(async value => {
+              this.plugin.settings.responsiveSizes = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // 첨부 파일 형식 설정
+    containerEl.createEl('h2', { text: this.plugin.t('attachmentTypes') });
+    containerEl.createEl('p', {
+      text: this.plugin.t('attachmentTypesDesc'),
+      cls: 'setting-item-description',
+    });
+
+    const typeNames: Record<string, keyof Translations> = {
+      image: 'attachmentTypeImage',
+      video: 'attachmentTypeVideo',
+      audio: 'attachmentTypeAudio',
+      pdf: 'attachmentTypePdf',
+      document: 'attachmentTypeDocument',
+    };
+    const renderNames: Record<AttachmentRender, keyof Translations> = {
+      image: 'renderImage',
+      video: 'renderVideo',
+      audio: 'renderAudio',
+      iframe: 'renderIframe',
+      link: 'renderLink',
+    };
+    const templateExamples: Record<AttachmentRender, string> = {
+      image: '<img src="{url}" alt="{alt}" loading="lazy">',
+      video: '<video src="{url}" controls playsinline muted loop></video>',
+      audio: '<audio src="{url}" controls preload="none"></audio>',
+      iframe: '<iframe src="{url}" width="100%" height="600"></iframe>',
+      link: '[{filename} ({size})]({url})',
+    };
+    const splitList = (value: string) =>
+      value
+        .split(',')
+        .map(item => item.trim().replace(/^\./, '').toLowerCase())
+        .filter(item => item.length > 0);
+
+    this.plugin.settings.attachmentTypes.forEach(type => {
+      let previewEl: HTMLElement;
+      let templateInput: HTMLInputElement;
+
+      new Setting(containerEl)
+        .setName(typeNames[type.id] ? this.plugin.t(typeNames[type.id]) : type.id)
+        .addText(text => {
+          text.inputEl.title = this.plugin.t('attachmentMimeTypes');
+          text
+            .setPlaceholder('image/*')
+            .setValue(type.mimeTypes.join(', '))
+            .onChange(async value => {
+              type.mimeTypes = splitList(value);
+              await this.plugin.saveSettings();
+            });
+        })
+        .addText(text => {
+          text.inputEl.title = this.plugin.t('attachmentExtensions');
+          text
+            .setPlaceholder('png, jpg')
+            .setValue(type.extensions.join(', '))
+            .onChange(async value => {
+              type.extensions = splitList(value);
+              await this.plugin.saveSettings();
+            });
+        })
+        .addDropdown(dropdown => {
+          (Object.keys(renderNames) as AttachmentRender[]).forEach(render =>
+            dropdown.addOption(render, this.plugin.t(renderNames[render]))
+          );
+          dropdown.setValue(type.render).onChange(async value => {
+            type.render = value as AttachmentRender;
+            templateInput.placeholder = templateExamples[type.render];
+            this.renderEmbedPreview(previewEl, type);
+            await this.plugin.saveSettings();
+          });
+        })
+        .addToggle(toggle =>
+          toggle.setValue(type.enabled).onChange(async value => {
+            type.enabled = value;
+            await this.plugin.saveSettings();
+          })
+        );
+
+      const templateSetting = new Setting(containerEl)
+        .setName(this.plugin.t('attachmentTemplate'))
+        .setDesc(
+          this.plugin.t('attachmentTemplateDesc', {
+            tokens: EMBED_TEMPLATE_TOKENS.map(token => `{${token}}`).join(' '),
+          })
+        )
+        .addText(text => {
+          templateInput = text.inputEl;
+          text
+            .setPlaceholder(templateExamples[type.render])
+            .setValue(type.template)
+            .onChange(async value => {
+              type.template = value;
+              this.renderEmbedPreview(previewEl, type);
+              await this.plugin.saveSettings();
+            });
+        });
+      previewEl = templateSetting.descEl.createDiv('r2-uploader-path-preview');
+      this.renderEmbedPreview(previewEl, type);
+    });
+
+    // 이미지 로컬화 설정
+    containerEl.createEl('h2', { text: this.plugin.t('localizeImages') });
+
+    new Setting(containerEl)
+      .setName(this.plugin.t('localizeOwnImagesOnly'))
+      .setDesc(this.plugin.t('localizeOwnImagesOnlyDesc'))
+      .addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.localizeOwnImagesOnly).onChange(async value => {
+          this.plugin.settings.localizeOwnImagesOnly = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.t('localizeLinkStyle'))
+      .setDesc(this.plugin.t('localizeLinkStyleDesc'))
+      .addDropdown(dropdown =>
+        dropdown
+          .addOption('wikilink', this.plugin.t('linkStyleWikilink'))
+          .addOption('markdown', this.plugin.t('linkStyleMarkdown'))
+          .setValue(this.plugin.settings.localizeLinkStyle)
           .onChange(async value => {
-            this.plugin.settings.targetPath = value;
+            this.plugin.settings.localizeLinkStyle = value as LocalLinkStyle;
             await this.plugin.saveSettings();
           })
       );
 
+    // 업로드 대기열 설정
+    containerEl.createEl('h2', { text: this.plugin.t('uploadQueue') });
+    if (this.plugin.settings.uploadQueue.length > 0) {
+      containerEl.createEl('p', {
+        text: this.plugin.t('pendingUploads', {
+          count: this.plugin.settings.uploadQueue.length.toString(),
+        }),
+        cls: 'setting-item-description',
+      });
+    }
+
+    numberSetting('uploadConcurrency', 'uploadConcurrencyDesc', 'uploadConcurrency', 1);
+    numberSetting('uploadRetries', 'uploadRetriesDesc', 'uploadRetries', 1);
+    numberSetting('publishConcurrency', 'publishConcurrencyDesc', 'publishConcurrency', 1);
+    numberSetting('multipartThreshold', 'multipartThresholdDesc', 'multipartThresholdMB', 5);
+    numberSetting('multipartPartSize', 'multipartPartSizeDesc', 'multipartPartSizeMB', 5);
+
+    // 비공개 버킷 설정
+    containerEl.createEl('h2', { text: this.plugin.t('privateBuckets') });
+    containerEl.createEl('p', {
+      text: this.plugin.t('privateBucketsDesc'),
+      cls: 'setting-item-description',
+    });
+    numberSetting(
+      'presignedUrlLifetime',
+      'presignedUrlLifetimeDesc',
+      'presignedUrlLifetimeMinutes',
+      1
+    );
+    numberSetting('sharedLinkLifetime', 'sharedLinkLifetimeDesc', 'sharedLinkLifetimeHours', 1);
+
+    // 업로드 프로필 설정
+    containerEl.createEl('h2', { text: this.plugin.t('uploadProfiles') });
+    containerEl.createEl('p', {
+      text: this.plugin.t('uploadProfilesDesc'),
+      cls: 'setting-item-description',
+    });
+
+    const { profiles } = this.plugin.settings;
+    new Setting(containerEl)
+      .setName(this.plugin.t('defaultProfile'))
+      .setDesc(this.plugin.t('defaultProfileDesc'))
+      .addDropdown(dropdown => {
+        profiles.forEach(p => dropdown.addOption(p.id, p.name));
+        dropdown.setValue(this.plugin.settings.defaultProfileId).onChange(async value => {
+          this.plugin.settings.defaultProfileId = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    const profile =
+      profiles.find(p => p.id === this.editingProfileId) ??
+      profiles.find(p => p.id === this.plugin.settings.defaultProfileId) ??
+      profiles[0];
+    this.editingProfileId = profile.id;
+
+    new Setting(containerEl)
+      .setName(this.plugin.t('editProfile'))
+      .setDesc(this.plugin.t('editProfileDesc'))
+      .addDropdown(dropdown => {
+        profiles.forEach(p => dropdown.addOption(p.id, p.name));
+        dropdown.setValue(profile.id).onChange(value => {
+          this.editingProfileId = value;
+          this.display();
+        });
+      })
+      .addExtraButton(button =>
+        button
+          .setIcon('plus')
+          .setTooltip(this.plugin.t('addProfile'))
+          .onClick(async () => {
+            const newProfile: UploadProfile = {
+              ...DEFAULT_PROFILE,
+              id: generatePseudoRandomId(8),
+              name: this.plugin.t('newProfile'),
+            };
+            profiles.push(newProfile);
+            this.editingProfileId = newProfile.id;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      )
+      .addExtraButton(button =>
+        button
+          .setIcon('trash')
+          .setTooltip(this.plugin.t('deleteProfile'))
+          .setDisabled(profiles.length <= 1)
+          .onClick(async () => {
+            if (profiles.length <= 1) return;
+            this.plugin.settings.profiles = profiles.filter(p => p.id !== profile.id);
+            this.plugin.settings.routingRules = this.plugin.settings.routingRules.filter(
+              rule => rule.profileId !== profile.id
+            );
+            if (this.plugin.settings.defaultProfileId === profile.id) {
+              this.plugin.settings.defaultProfileId = this.plugin.settings.profiles[0].id;
+            }
+            this.editingProfileId = null;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
     new Setting(containerEl)
-      .setName(this.plugin.t('r2devUrlCustomDomain'))
-      .setDesc(this.plugin.t('r2devUrlCustomDomainDesc'))
+      .setName(this.plugin.t('profileName'))
+      .setDesc(this.plugin.t('profileNameDesc'))
       .addText(text =>
-        text
-          .setPlaceholder('Enter domain name')
-          .setValue(this.plugin.settings.customDomainName)
+        text.setValue(profile.name).onChange(async value => {
+          profile.name = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    const provider = getProvider(profile.provider);
+    new Setting(containerEl)
+      .setName(this.plugin.t('storageProvider'))
+      .setDesc(this.plugin.t('storageProviderDesc'))
+      .addDropdown(dropdown => {
+        UPLOADER_PROVIDERS.forEach(p => dropdown.addOption(p.id, p.name));
+        dropdown.setValue(provider.id).onChange(async value => {
+          profile.provider = value as ProviderId;
+          await this.plugin.saveSettings();
+          // Refresh settings UI to show the fields of the new provider
+          this.display();
+        });
+      });
+
+    containerEl.createEl('h3', {
+      text: this.plugin.t('providerSettings', { provider: provider.name }),
+    });
+
+    for (const field of provider.fields) {
+      const isPath = field.key === 'targetPath';
+      let previewEl: HTMLElement | null = null;
+      const setting = new Setting(containerEl)
+        .setName(this.plugin.t(field.name as keyof Translations))
+        .setDesc(
+          this.plugin.t(
+            field.desc as keyof Translations,
+            isPath
+              ? {
+                  tokens: TEMPLATE_TOKENS.map(token => `{${token}}`).join(' '),
+                  filters: TEMPLATE_FILTERS.join(', '),
+                }
+              : undefined
+          )
+        )
+        .addText(text => {
+          if (field.secret) text.inputEl.type = 'password';
+          text
+            .setPlaceholder(field.placeholder)
+            .setValue(profile[field.key])
+            .onChange(async value => {
+              profile[field.key] = value;
+              if (previewEl) this.renderPathPreview(previewEl, value);
+              await this.plugin.saveSettings();
+            });
+        });
+      if (isPath) {
+        previewEl = setting.descEl.createDiv('r2-uploader-path-preview');
+        this.renderPathPreview(previewEl, profile.targetPath);
+      }
+    }
+
+    if (provider.privateBucketScheme) {
+      new Setting(containerEl)
+        .setName(this.plugin.t('privateBucket'))
+        .setDesc(this.plugin.t('privateBucketDesc'))
+        .addToggle(toggle =>
+          toggle.setValue(profile.privateBucket).onChange(async value => {
+            profile.privateBucket = value;
+            await this.plugin.saveSettings();
+          })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName(this.plugin.t('embedStyle'))
+      .setDesc(this.plugin.t('embedStyleDesc'))
+      .addDropdown(dropdown =>
+        dropdown
+          .addOption('markdown', this.plugin.t('embedStyleMarkdown'))
+          .addOption('html', this.plugin.t('embedStyleHtml'))
+          .addOption('figure', this.plugin.t('embedStyleFigure'))
+          .addOption('custom', this.plugin.t('embedStyleCustom'))
+          .setValue(profile.embedStyle)
           .onChange(async value => {
-            this.plugin.settings.customDomainName = value;
+            profile.embedStyle = value as EmbedStyle;
             await this.plugin.saveSettings();
+            // Show or hide the template
+            this.display();
           })
       );
+
+    if (profile.embedStyle === 'custom') {
+      new Setting(containerEl)
+        .setName(this.plugin.t('embedTemplate'))
+        .setDesc(
+          this.plugin.t('embedTemplateDesc', {
+            tokens: EMBED_TEMPLATE_TOKENS.map(token => `{${token}}`).join(' '),
+          })
+        )
+        .addText(text =>
+          text
+            .setPlaceholder('<img src="{url}" alt="{alt}" width="{width}">')
+            .setValue(profile.embedTemplate)
+            .onChange(async value => {
+              profile.embedTemplate = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // 라우팅 규칙
+    containerEl.createEl('h2', { text: this.plugin.t('routingRules') });
+    containerEl.createEl('p', {
+      text: this.plugin.t('routingRulesDesc'),
+      cls: 'setting-item-description',
+    });
+
+    const ruleTypes: Record<RoutingRuleType, keyof Translations> = {
+      path: 'routingRuleTypePath',
+      frontmatter: 'routingRuleTypeFrontmatter',
+      tag: 'routingRuleTypeTag',
+    };
+    const rulePlaceholders: Record<RoutingRuleType, string> = {
+      path: 'Blog/**',
+      frontmatter: 'publish=true',
+      tag: '#blog',
+    };
+    this.plugin.settings.routingRules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .addDropdown(dropdown => {
+          (Object.keys(ruleTypes) as RoutingRuleType[]).forEach(type =>
+            dropdown.addOption(type, this.plugin.t(ruleTypes[type]))
+          );
+          dropdown.setValue(rule.type).onChange(async value => {
+            rule.type = value as RoutingRuleType;
+            await this.plugin.saveSettings();
+          });
+        })
+        .addText(text =>
+          text
+            .setPlaceholder(rulePlaceholders[rule.type])
+            .setValue(rule.pattern)
+            .onChange(async value => {
+              rule.pattern = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addDropdown(dropdown => {
+          profiles.forEach(p => dropdown.addOption(p.id, p.name));
+          dropdown.setValue(rule.profileId).onChange(async value => {
+            rule.profileId = value;
+            await this.plugin.saveSettings();
+          });
+        })
+        .addExtraButton(button =>
+          button
+            .setIcon('trash')
+            .setTooltip(this.plugin.t('removeRoutingRule'))
+            .onClick(async () => {
+              this.plugin.settings.routingRules.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    new Setting(containerEl).addButton(button =>
+      button.setButtonText(this.plugin.t('addRoutingRule')).onClick(async () => {
+        this.plugin.settings.routingRules.push({
+          type: 'path',
+          pattern: '',
+          profileId: profile.id,
+        });
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+  }
+
+  /**
+   * Render a sample file of the type the way uploads of it will be embedded.
+   * Like most uploads, the sample has no size written in the note, so `{width}` and `{height}`
+   * come from its pixel size.
+   */
+  private renderEmbedPreview(previewEl: HTMLElement, type: AttachmentType) {
+    previewEl.empty();
+    const fileName = `sample.${type.extensions[0] ?? 'bin'}`;
+    const url = `https://cdn.example.com/${fileName}`;
+    const embed = this.plugin.renderEmbed(type, url, fileName, {
+      altText: 'sample',
+      bytes: 1258291,
+      dimensions: { width: 1920, height: 1080 },
+    });
+    previewEl.createDiv({ text: this.plugin.t('embedPreview', { embed }) });
+  }
+
+  /**
+   * Show the key the path template gives a pasted image in the active note,
+   * or what is wrong with the template.
+   */
+  private renderPathPreview(previewEl: HTMLElement, template: string) {
+    previewEl.empty();
+
+    const issueMessages: Record<TemplateIssueReason, keyof Translations> = {
+      unknownToken: 'pathIssueUnknownToken',
+      badArgument: 'pathIssueBadArgument',
+      unknownFilter: 'pathIssueUnknownFilter',
+      unclosedBrace: 'pathIssueUnclosedBrace',
+    };
+    const issues = validatePathTemplate(template);
+    if (issues.length > 0) {
+      issues.forEach(issue =>
+        previewEl.createDiv({
+          text: this.plugin.t(issueMessages[issue.reason], { token: issue.token }),
+          cls: 'mod-warning',
+        })
+      );
+      return;
+    }
+
+    const note = this.plugin.templateNote(this.app.workspace.getActiveFile()) ?? {
+      name: 'My Note',
+      path: 'Notes/My Note',
+      frontmatter: { slug: 'my-note' },
+      vault: this.app.vault.getName(),
+    };
+    const key = renderPathTemplate(template, {
+      fileName: 'Pasted image.png',
+      // SHA-256 of an empty file, so the preview does not need real content
+      hash: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+      note,
+    }).replace(/^\/+/, '');
+    previewEl.createDiv({ text: this.plugin.t('pathPreview', { key }) });
   }
 }
@@ -0,0 +1,119 @@
+export type AttachmentRender = 'image' | 'video' | 'audio' | 'iframe' | 'link';
+
+export interface AttachmentType {
+  id: string;
+  enabled: boolean;
+  // Patterns such as `image/*` or `application/pdf`
+  mimeTypes: string[];
+  // Lower case, without the dot
+  extensions: string[];
+  // How the uploaded file is embedded in the note
+  render: AttachmentRender;
+  // Replaces the built-in embed of `render` when set, see `EMBED_TEMPLATE_TOKENS`
+  template: string;
+}
+
+export const DEFAULT_ATTACHMENT_TYPES: AttachmentType[] = [
+  {
+    id: 'image',
+    enabled: true,
+    mimeTypes: ['image/*'],
+    extensions: ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'tiff', 'tif', 'avif', 'heic', 'heif'],
+    render: 'image',
+    template: '',
+  },
+  {
+    id: 'video',
+    enabled: true,
+    mimeTypes: ['video/*'],
+    extensions: ['mp4', 'mov', 'm4v', 'webm', 'ogv', 'mkv', 'avi', 'mpg', 'mpeg', 'mpe', 'm2v', '3gp', '3g2'],
+    render: 'video',
+    template: '',
+  },
+  {
+    id: 'audio',
+    enabled: false,
+    mimeTypes: ['audio/*'],
+    extensions: ['mp3', 'm4a', 'wav', 'ogg', 'oga', 'opus', 'flac', 'aac', 'webm'],
+    render: 'audio',
+    template: '',
+  },
+  {
+    id: 'pdf',
+    enabled: false,
+    mimeTypes: ['application/pdf'],
+    extensions: ['pdf'],
+    render: 'link',
+    template: '',
+  },
+  {
+    id: 'document',
+    enabled: false,
+    mimeTypes: [
+      'application/zip',
+      'application/x-7z-compressed',
+      'application/vnd.openxmlformats-officedocument.*',
+      'application/msword',
+      'application/vnd.ms-excel',
+      'application/vnd.ms-powerpoint',
+      'text/csv',
+    ],
+    extensions: ['zip', '7z', 'rar', 'tar', 'gz', 'docx', 'doc', 'xlsx', 'xls', 'pptx', 'ppt', 'csv', 'epub'],
+    render: 'link',
+    template: '',
+  },
+];
+
+/**
+ * The first type matching the MIME type, or the file extension when the MIME type
+ * is missing or unknown (e.g. files read from the vault).
+ * Callers check `enabled` before uploading; disabled types still decide how a file renders.
+ */
+export function findAttachmentType(
+  types: AttachmentType[],
+  fileName: string,
+  mimeType = ''
+): AttachmentType | null {
+  if (mimeType && mimeType !== 'application/octet-stream') {
+    const byMime = types.find(type =>
+      type.mimeTypes.some(pattern => matchesMimeType(pattern, mimeType))
+    );
+    if (byMime) return byMime;
+  }
+
+  const extension = fileExtension(fileName);
+  return types.find(type => type.extensions.includes(extension)) ?? null;
+}
+
+export function renderAttachment(
+  render: AttachmentRender,
+  url: string,
+  fileName: string,
+  altText = ''
+): string {
+  switch (render) {
+    case 'video':
+      return `<video controls playsinline muted loop src="${url}"></video>`;
+    case 'audio':
+      return `<audio controls src="${url}"></audio>`;
+    case 'iframe':
+      return `<iframe src="${url}" width="100%" height="600"></iframe>`;
+    case 'link':
+      return `[${altText || fileName}](${url})`;
+    default:
+      return `![${altText}](${url})`;
+  }
+}
+
+export function fileExtension(fileName: string): string {
+  const name = fileName.split(/[?#]/)[0].split('/').pop() ?? '';
+  return name.includes('.') ? (name.split('.').pop() ?? '').toLowerCase() : '';
+}
+
+function matchesMimeType(pattern: string, mimeType: string): boolean {
+  const normalized = mimeType.split(';')[0].trim().toLowerCase();
+  const lowerPattern = pattern.trim().toLowerCase();
+  return lowerPattern.endsWith('*')
+    ? normalized.startsWith(lowerPattern.slice(0, -1))
+    : normalized === lowerPattern;
+}
@@ -1,87 +1,25 @@
-import { UploaderUtils } from '../uploader/uploaderUtils';
+import { DirectS3Uploader } from '../uploader/directS3Uploader';
+import { ObjectHeaderSettings } from '../uploader/objectHeaders';
 
-export interface R2Setting {
+export interface R2Setting extends ObjectHeaderSettings {
   accessKeyId: string;
   secretAccessKey: string;
   endpoint: string;
   bucketName: string;
   path: string;
   customDomainName: string;
+  // Embed `r2://bucket/key` references instead of public URLs
+  privateBucket?: boolean;
 }
 
-export class DirectR2Uploader {
-  private readonly accessKeyId: string;
-  private readonly secretAccessKey: string;
-  private readonly endpoint: string;
-  private readonly bucket: string;
-  private readonly pathTemplate: string;
-  private readonly customDomainName: string;
+/**
+ * Uploads straight to Cloudflare R2 through its S3 compatible API, signed with SigV4.
+ * Unlike R2Uploader this does not pull in aws-sdk.
+ */
+export class DirectR2Uploader extends DirectS3Uploader {
+  protected readonly referenceScheme = 'r2';
 
   constructor(setting: R2Setting) {
-    this.accessKeyId = setting.accessKeyId;
-    this.secretAccessKey = setting.secretAccessKey;
-    this.endpoint = setting.endpoint;
-    this.bucket = setting.bucketName;
-    this.pathTemplate = setting.path;
-    this.customDomainName = setting.customDomainName;
-  }
-
-  async upload(image: File): Promise<string> {
-    const arrayBuffer = await this.readFileAsArrayBuffer(image);
-    const uint8Array = new Uint8Array(arrayBuffer);
-    let path = UploaderUtils.generateName(this.pathTemplate, image.name);
-    path = path.replace(/^\/+/, ''); // remove the /
-
-    // Create a signed URL for PUT request
-    const signedUrl = await this.createSignedUrl(path, image.type);
-
-    // Use XMLHttpRequest instead of fetch to avoid CORS issues
-    return new Promise((resolve, reject) => {
-      const xhr = new XMLHttpRequest();
-      xhr.open('PUT', signedUrl, true);
-      xhr.setRequestHeader('Content-Type', image.type);
-
-      xhr.onload = () => {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          const url = `${this.endpoint}/${this.bucket}/${path}`;
-          const dst = url.split(`/${this.bucket}/`).pop();
-          if (!dst) {
-            reject(new Error('Could not extract file path from URL'));
-            return;
-          }
-          resolve(UploaderUtils.customizeDomainName(dst, this.customDomainName));
-        } else {
-          reject(new Error(`Upload failed: ${xhr.status} ${xhr.statusText}`));
-        }
-      };
-
-      xhr.onerror = () => {
-        reject(new Error('Network error during upload'));
-      };
-
-      xhr.send(uint8Array);
-    });
-  }
-
-  private async createSignedUrl(key: string, contentType: string): Promise<string> {
-    // This is a simplified version - in production, you'd need to implement
-    // AWS Signature v4 properly with crypto operations
-    const now = new Date();
-    const dateString = now.toISOString().slice(0, 10).replace(/-/g, '');
-    const datetimeString = now.toISOString().replace(/[:\-]|\.\d{3}/g, '');
-
-    // For now, we'll use a simple approach that might work with some R2 configurations
-    // In practice, you'd need to implement proper AWS signature v4
-    const url = `${this.endpoint}/${this.bucket}/${key}`;
-    return url;
-  }
-
-  private readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as ArrayBuffer);
-      reader.onerror = reject;
-      reader.readAsArrayBuffer(file);
-    });
+    super({ ...setting, region: 'auto' }); // Cloudflare R2 uses 'auto' region
   }
 }
@@ -1,89 +1,322 @@
 import { UploaderUtils } from '../uploader/uploaderUtils';
+import { SigV4Signer } from '../uploader/sigV4';
+import { chooseKey, putWithPolicy } from '../uploader/keyCollision';
+import {
+  ListObjectsResult,
+  StoredObject,
+  Uploader,
+  UploadOptions,
+  UploadResult,
+} from '../uploader/uploader';
+import {
+  CompletedPart,
+  hashBody,
+  MultipartBackend,
+  MultipartCheckpoint,
+  MultipartOptions,
+  MultipartUploadGoneError,
+  runMultipartUpload,
+  UploadBody,
+} from '../uploader/multipartUpload';
+import {
+  buildObjectHeaders,
+  ObjectHeaders,
+  ObjectHeaderSettings,
+  toHttpHeaders,
+} from '../uploader/objectHeaders';
+import { mimeTypeOf } from '../uploader/mimeTypes';
+import { objectReference } from '../uploader/objectReference';
 
-export interface S3Setting {
+export interface S3Setting extends ObjectHeaderSettings {
   accessKeyId: string;
   secretAccessKey: string;
   endpoint: string;
   bucketName: string;
   path: string;
   customDomainName: string;
+  region?: string;
+  // Embed `s3://bucket/key` references instead of public URLs
+  privateBucket?: boolean;
 }
 
-export class DirectS3Uploader {
-  private readonly accessKeyId: string;
-  private readonly secretAccessKey: string;
-  private readonly endpoint: string;
-  private readonly bucket: string;
-  private readonly pathTemplate: string;
-  private readonly customDomainName: string;
+interface S3Response {
+  status: number;
+  statusText: string;
+  body: string;
+  etag: string;
+}
+
+export class DirectS3Uploader implements Uploader {
+  protected readonly signer: SigV4Signer;
+  protected readonly endpoint: string;
+  protected readonly bucket: string;
+  protected readonly pathTemplate: string;
+  protected readonly customDomainName: string;
+  protected readonly headerSettings: ObjectHeaderSettings;
+  protected readonly privateBucket: boolean;
+  protected readonly referenceScheme: string = 's3';
 
   constructor(setting: S3Setting) {
-    this.accessKeyId = setting.accessKeyId;
-    this.secretAccessKey = setting.secretAccessKey;
-    this.endpoint = setting.endpoint;
+    this.signer = new SigV4Signer({
+      accessKeyId: setting.accessKeyId,
+      secretAccessKey: setting.secretAccessKey,
+      region: setting.region || 'us-east-1',
+    });
+    this.endpoint = setting.endpoint.replace(/\/+$/, '');
     this.bucket = setting.bucketName;
     this.pathTemplate = setting.path;
     this.customDomainName = setting.customDomainName;
+    this.headerSettings = {
+      cacheControl: setting.cacheControl,
+      contentDisposition: setting.contentDisposition,
+      objectMetadata: setting.objectMetadata,
+    };
+    this.privateBucket = setting.privateBucket ?? false;
   }
 
-  async upload(image: File): Promise<string> {
+  async upload(image: File, options: UploadOptions = {}): Promise<UploadResult> {
     const arrayBuffer = await this.readFileAsArrayBuffer(image);
     const uint8Array = new Uint8Array(arrayBuffer);
-    let path = UploaderUtils.generateName(this.pathTemplate, image.name);
+    const hash = UploaderUtils.needsHash(this.pathTemplate)
+      ? await UploaderUtils.sha256Hex(uint8Array)
+      : '';
+    let path =
+      options.key ?? UploaderUtils.generateName(this.pathTemplate, image.name, hash, options.note);
     path = path.replace(/^\/+/, ''); // remove the /
+    const objectHeaders = buildObjectHeaders(this.headerSettings, mimeTypeOf(image), {
+      fileName: image.name,
+      hash,
+      note: options.note,
+    });
+
+    const { key, existed } = await putWithPolicy(
+      path,
+      options.overwrite ?? 'overwrite',
+      candidate => this.exists(candidate),
+      async (candidate, conditional) => {
+        const headers = toHttpHeaders(objectHeaders);
+        if (conditional) headers['If-None-Match'] = '*';
+        const response = await this.request('PUT', this.objectUrl(candidate), headers, uint8Array);
+        // 412: someone else wrote the key after our HEAD check
+        if (conditional && response.status === 412) return false;
+        if (response.status < 200 || response.status >= 300) {
+          throw new Error(`Upload failed: ${response.status} ${response.statusText}`);
+        }
+        return true;
+      }
+    );
+    return { url: this.publicUrl(key), key, existed };
+  }
+
+  async uploadMultipart(body: UploadBody, options: MultipartOptions = {}): Promise<UploadResult> {
+    let key = options.checkpoint?.key ?? '';
+    const objectHeaders = buildObjectHeaders(this.headerSettings, mimeTypeOf(body), {
+      fileName: body.name,
+      hash: options.hash,
+      note: options.note,
+    });
+    if (!key) {
+      const hash = UploaderUtils.needsHash(this.pathTemplate)
+        ? options.hash ?? (await hashBody(body))
+        : '';
+      key = UploaderUtils.generateName(this.pathTemplate, body.name, hash, options.note).replace(
+        /^\/+/,
+        ''
+      );
+      const choice = await chooseKey(key, options.overwrite ?? 'overwrite', candidate =>
+        this.exists(candidate)
+      );
+      if (choice.existed) return { url: this.publicUrl(choice.key), key: choice.key, existed: true };
+      key = choice.key;
+    }
+    key = await runMultipartUpload(this.multipartBackend(objectHeaders), body, key, options);
+    return { url: this.publicUrl(key), key };
+  }
+
+  async abortMultipart(checkpoint: MultipartCheckpoint): Promise<void> {
+    await this.multipartBackend().abort(checkpoint.key, checkpoint.uploadId);
+  }
+
+  publicUrl(key: string): string {
+    if (this.privateBucket) return objectReference(this.referenceScheme, this.bucket, key);
+    return UploaderUtils.customizeDomainName(key, this.customDomainName);
+  }
+
+  presignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    // Signatures are bound to the API host, so the custom domain cannot be used here
+    return this.signer.presign('GET', this.objectUrl(key), expiresInSeconds);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', this.objectUrl(key));
+    // S3 answers 204 even when the key did not exist
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Delete failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', this.objectUrl(key));
+    if (response.status === 404) return false;
+    if (response.status >= 200 && response.status < 300) return true;
+    throw new Error(`HEAD request failed: ${response.status} ${response.statusText}`);
+  }
 
-    // Create a signed URL for PUT request
-    const signedUrl = await this.createSignedUrl(path, image.type);
+  async list(prefix: string, continuationToken?: string): Promise<ListObjectsResult> {
+    const url = new URL(`${this.endpoint}/${this.bucket}`);
+    url.searchParams.set('list-type', '2');
+    url.searchParams.set('max-keys', '1000');
+    if (prefix) url.searchParams.set('prefix', prefix.replace(/^\/+/, ''));
+    if (continuationToken) url.searchParams.set('continuation-token', continuationToken);
+
+    const response = await this.request('GET', url.toString());
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`List failed: ${response.status} ${response.statusText}`);
+    }
+
+    const xml = new DOMParser().parseFromString(response.body, 'application/xml');
+    const objects: StoredObject[] = Array.from(xml.getElementsByTagName('Contents')).map(
+      node => {
+        const lastModified = DirectS3Uploader.childText(node, 'LastModified');
+        return {
+          key: DirectS3Uploader.childText(node, 'Key'),
+          size: parseInt(DirectS3Uploader.childText(node, 'Size') || '0', 10),
+          lastModified: lastModified ? new Date(lastModified) : null,
+        };
+      }
+    );
+    const truncated = DirectS3Uploader.childText(xml.documentElement, 'IsTruncated') === 'true';
+    const nextToken = DirectS3Uploader.childText(xml.documentElement, 'NextContinuationToken');
+
+    return { objects, continuationToken: truncated && nextToken ? nextToken : undefined };
+  }
+
+  private multipartBackend(
+    objectHeaders: ObjectHeaders = { contentType: 'application/octet-stream', metadata: {} }
+  ): MultipartBackend {
+    const uploadUrl = (key: string, uploadId: string, params: Record<string, string> = {}) => {
+      const url = new URL(this.objectUrl(key));
+      url.searchParams.set('uploadId', uploadId);
+      Object.keys(params).forEach(name => url.searchParams.set(name, params[name]));
+      return url.toString();
+    };
+    const check = (response: S3Response, action: string, uploadId: string) => {
+      if (response.status === 404 && uploadId) throw new MultipartUploadGoneError(uploadId);
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`${action} failed: ${response.status} ${response.statusText}`);
+      }
+    };
+
+    return {
+      create: async key => {
+        const response = await this.request(
+          'POST',
+          `${this.objectUrl(key)}?uploads`,
+          toHttpHeaders(objectHeaders)
+        );
+        check(response, 'Starting multipart upload', '');
+        const xml = new DOMParser().parseFromString(response.body, 'application/xml');
+        const uploadId = DirectS3Uploader.childText(xml.documentElement, 'UploadId');
+        if (!uploadId) throw new Error('Starting multipart upload failed: no upload id');
+        return uploadId;
+      },
+      uploadPart: async (key, uploadId, partNumber, bytes) => {
+        const response = await this.request(
+          'PUT',
+          uploadUrl(key, uploadId, { partNumber: partNumber.toString() }),
+          {},
+          bytes
+        );
+        check(response, `Uploading part ${partNumber}`, uploadId);
+        return response.etag;
+      },
+      listParts: async (key, uploadId) => {
+        const parts: CompletedPart[] = [];
+        let marker = '';
+        for (;;) {
+          const params: Record<string, string> = marker ? { 'part-number-marker': marker } : {};
+          const response = await this.request('GET', uploadUrl(key, uploadId, params));
+          check(response, 'Listing parts', uploadId);
+          const xml = new DOMParser().parseFromString(response.body, 'application/xml');
+          Array.from(xml.getElementsByTagName('Part')).forEach(node =>
+            parts.push({
+              partNumber: parseInt(DirectS3Uploader.childText(node, 'PartNumber'), 10),
+              etag: DirectS3Uploader.childText(node, 'ETag'),
+            })
+          );
+          const root = xml.documentElement;
+          marker = DirectS3Uploader.childText(root, 'NextPartNumberMarker');
+          if (DirectS3Uploader.childText(root, 'IsTruncated') !== 'true' || !marker) break;
+        }
+        return parts;
+      },
+      complete: async (key, uploadId, parts) => {
+        const xml =
+          '<CompleteMultipartUpload>' +
+          parts
+            .map(part => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${part.etag}</ETag></Part>`)
+            .join('') +
+          '</CompleteMultipartUpload>';
+        const response = await this.request(
+          'POST',
+          uploadUrl(key, uploadId),
+          { 'Content-Type': 'application/xml' },
+          new TextEncoder().encode(xml)
+        );
+        check(response, 'Completing multipart upload', uploadId);
+        // S3 may answer 200 and still report an error in the body
+        if (response.body.includes('<Error>')) {
+          throw new Error(`Completing multipart upload failed: ${response.body}`);
+        }
+      },
+      abort: async (key, uploadId) => {
+        const response = await this.request('DELETE', uploadUrl(key, uploadId));
+        if (response.status === 404) return;
+        check(response, 'Aborting multipart upload', uploadId);
+      },
+    };
+  }
+
+  protected objectUrl(key: string): string {
+    // Path-style addressing works for R2, MinIO and AWS S3 alike
+    return `${this.endpoint}/${this.bucket}/${SigV4Signer.encodeKey(key.replace(/^\/+/, ''))}`;
+  }
+
+  protected async request(
+    method: string,
+    url: string,
+    headers: Record<string, string> = {},
+    body?: Uint8Array
+  ): Promise<S3Response> {
+    const signedHeaders = await this.signer.sign(method, url, headers, body ?? '');
 
     // Use XMLHttpRequest instead of fetch to avoid CORS issues
     return new Promise((resolve, reject) => {
       const xhr = new XMLHttpRequest();
-      xhr.open('PUT', signedUrl, true);
-      xhr.setRequestHeader('Content-Type', image.type);
+      xhr.open(method, url, true);
+      Object.keys(signedHeaders).forEach(name =>
+        xhr.setRequestHeader(name, signedHeaders[name])
+      );
 
       xhr.onload = () => {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          const url = `${this.endpoint}/${this.bucket}/${path}`;
-          const dst = url.split(`/${this.bucket}/`).pop();
-          if (!dst) {
-            reject(new Error('Could not extract file path from URL'));
-            return;
-          }
-          resolve(UploaderUtils.customizeDomainName(dst, this.customDomainName));
-        } else {
-          reject(new Error(`Upload failed: ${xhr.status} ${xhr.statusText}`));
-        }
+        resolve({
+          status: xhr.status,
+          statusText: xhr.statusText,
+          body: xhr.responseText,
+          // Only readable when the bucket's CORS policy exposes it
+          etag: xhr.getResponseHeader('ETag') ?? '',
+        });
       };
 
       xhr.onerror = () => {
-        reject(new Error('Network error during upload'));
+        reject(new Error(`Network error during ${method} request`));
       };
 
-      xhr.send(uint8Array);
+      xhr.send(body);
     });
   }
 
-  private async createSignedUrl(key: string, contentType: string): Promise<string> {
-    // This is a simplified approach - in production, you'd need to implement
-    // proper AWS Signature v4 with crypto operations
-    const now = new Date();
-    const dateString = now.toISOString().slice(0, 10).replace(/-/g, '');
-    const datetimeString = now.toISOString().replace(/[:\-]|\.\d{3}/g, '');
-
-    // For Cloudflare R2, we can use a simpler approach
-    // This creates a pre-signed URL that should work with R2
-    const url = `${this.endpoint}/${this.bucket}/${key}`;
-
-    // Note: This is a simplified implementation
-    // In a real implementation, you'd need to:
-    // 1. Create proper AWS signature v4
-    // 2. Include proper headers
-    // 3. Handle authentication properly
-
-    return url;
-  }
-
-  private readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  protected readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.onload = () => resolve(reader.result as ArrayBuffer);
@@ -91,4 +324,11 @@ export class DirectS3Uploader {
       reader.readAsArrayBuffer(file);
     });
   }
+
+  private static childText(node: Element, tagName: string): string {
+    for (const child of Array.from(node.children)) {
+      if (child.tagName === tagName) return child.textContent ?? '';
+    }
+    return '';
+  }
 }
@@ -0,0 +1,173 @@
+import { UploaderUtils } from '../uploader/uploaderUtils';
+import { ResponsiveMarkup, UploadedVariant } from '../uploader/responsiveImages';
+
+/**
+ * How an uploaded image is written into the note:
+ * - markdown: `![alt|400](url "title")`, Obsidian reads the size from the alt text
+ * - html: `<img src alt width height title>`
+ * - figure: the `<img>` inside a `<figure>`, with the caption in a `<figcaption>`
+ * - custom: the profile's template
+ */
+export type EmbedStyle = 'markdown' | 'html' | 'figure' | 'custom';
+
+export interface EmbedImage {
+  url: string;
+  alt: string;
+  title?: string;
+  // `400` or `400x300`, as written after the `|` of an Obsidian embed
+  size?: string;
+  // Name, byte count and pixel size of the uploaded file, only used by templates
+  fileName?: string;
+  bytes?: number;
+  dimensions?: { width: number; height: number };
+}
+
+/**
+ * Variables of embed templates. `{size}` is the file size (`1.2 MB`).
+ * `{width}` and `{height}` are the size the author gave the embed (`|400`),
+ * otherwise the pixel size of the uploaded image when it is known.
+ */
+export const EMBED_TEMPLATE_TOKENS = ['url', 'alt', 'filename', 'width', 'height', 'size', 'title'];
+
+export const DEFAULT_EMBED_TEMPLATE = '![{alt}]({url})';
+
+/**
+ * Whether a template reads the pixel size, which costs a full decode of the image.
+ */
+export function templateUsesDimensions(template: string): boolean {
+  return /\{(width|height)\}/.test(template);
+}
+
+export function renderImageEmbed(style: EmbedStyle, image: EmbedImage, template = ''): string {
+  const { width, height } = parseSize(image.size);
+
+  switch (style) {
+    case 'html':
+      return imgTag(image, width, height);
+    case 'figure': {
+      // Obsidian captions live in the alias, a Markdown title works as well
+      const caption = image.title || image.alt;
+      const figcaption = caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : '';
+      return `<figure>${imgTag(image, width, height)}${figcaption}</figure>`;
+    }
+    case 'custom':
+      return renderEmbedTemplate(template || DEFAULT_EMBED_TEMPLATE, image);
+    default: {
+      const label = image.size ? `${image.alt}|${image.size}` : image.alt;
+      const title = image.title ? ` "${image.title.replace(/["\\]/g, '\\$&')}"` : '';
+      return `![${label}](${markdownDestination(image.url)}${title})`;
+    }
+  }
+}
+
+/**
+ * An `<img srcset sizes>`, or a `<picture>` with a `<source>` per extra format,
+ * listing every stored width. The `<img>` keeps a format every browser shows, never WebP
+ * when another one was stored, and `image.url` stays its `src` when it is in that format.
+ */
+export function renderResponsiveImage(
+  markup: ResponsiveMarkup,
+  image: EmbedImage,
+  variants: UploadedVariant[],
+  sizes: string
+): string {
+  const { width, height } = parseSize(image.size);
+  const byType = new Map<string, UploadedVariant[]>();
+  for (const variant of [...variants].sort((a, b) => a.width - b.width)) {
+    byType.set(variant.type, [...(byType.get(variant.type) ?? []), variant]);
+  }
+  const srcset = (list: UploadedVariant[]) =>
+    list.map(variant => `${variant.url} ${variant.width}w`).join(', ');
+
+  const types = [...byType.keys()];
+  const originalType = variants.find(variant => variant.url === image.url)?.type;
+  const fallbackType =
+    markup === 'picture'
+      ? (types.find(type => type !== 'image/webp') ?? types[0])
+      : (originalType ?? types[0]);
+  const fallback = byType.get(fallbackType) ?? [];
+  const src =
+    fallback.length === 0 || fallback.some(variant => variant.url === image.url)
+      ? image.url
+      : fallback[fallback.length - 1].url;
+
+  const responsive: [string, string][] = [];
+  if (fallback.length > 0) responsive.push(['srcset', srcset(fallback)]);
+  if (sizes) responsive.push(['sizes', sizes]);
+  const img = imgTag({ ...image, url: src }, width, height, responsive);
+  if (markup === 'srcset') return img;
+
+  const sources = types
+    .filter(type => type !== fallbackType)
+    .map(type => {
+      const attributes: [string, string][] = [
+        ['type', type],
+        ['srcset', srcset(byType.get(type) ?? [])],
+      ];
+      if (sizes) attributes.push(['sizes', sizes]);
+      return `<source ${htmlAttributes(attributes)}>`;
+    });
+  return `<picture>${sources.join('')}${img}</picture>`;
+}
+
+/**
+ * Fill in a template written with `EMBED_TEMPLATE_TOKENS`, unknown tokens are left as written.
+ * Values go in verbatim, as the template decides whether it is Markdown or HTML.
+ */
+export function renderEmbedTemplate(template: string, image: EmbedImage): string {
+  const { width, height } =
+    image.size || !image.dimensions
+      ? parseSize(image.size)
+      : { width: `${image.dimensions.width}`, height: `${image.dimensions.height}` };
+  const values: Record<string, string> = {
+    url: image.url,
+    alt: image.alt,
+    filename: image.fileName?.split('/').pop() ?? '',
+    width,
+    height,
+    size: image.bytes !== undefined ? UploaderUtils.formatBytes(image.bytes) : '',
+    title: image.title ?? '',
+  };
+  return template.replace(/\{(\w+)\}/g, (match, token: string) =>
+    Object.prototype.hasOwnProperty.call(values, token) ? values[token] : match
+  );
+}
+
+/**
+ * A link destination that survives Markdown parsing: `<...>` when it has spaces or parentheses.
+ */
+export function markdownDestination(url: string): string {
+  if (!/[\s()<>]/.test(url)) return url;
+  return `<${url.replace(/</g, '%3C').replace(/>/g, '%3E')}>`;
+}
+
+export function parseSize(size?: string): { width: string; height: string } {
+  const match = /^(\d+)(?:x(\d+))?$/.exec((size ?? '').trim());
+  return { width: match?.[1] ?? '', height: match?.[2] ?? '' };
+}
+
+function imgTag(
+  image: EmbedImage,
+  width: string,
+  height: string,
+  extra: [string, string][] = []
+): string {
+  const attributes: [string, string][] = [['src', image.url], ...extra, ['alt', image.alt]];
+  if (width) attributes.push(['width', width]);
+  if (height) attributes.push(['height', height]);
+  if (image.title) attributes.push(['title', image.title]);
+  attributes.push(['loading', 'lazy']);
+  return `<img ${htmlAttributes(attributes)}>`;
+}
+
+function htmlAttributes(attributes: [string, string][]): string {
+  return attributes.map(([name, value]) => `${name}="${escapeHtml(value)}"`).join(' ');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
@@ -0,0 +1,186 @@
+import { ImageVariant } from '../uploader/responsiveImages';
+
+export type ImageOutputFormat = 'original' | 'jpeg' | 'webp' | 'avif';
+
+export interface ImageProcessingOptions {
+  // 0 means no limit
+  maxWidth: number;
+  maxHeight: number;
+  // 1 - 100, used for JPEG, WebP and AVIF
+  quality: number;
+  format: ImageOutputFormat;
+  // Files smaller than this are uploaded untouched, 0 processes everything
+  skipBelowKB: number;
+}
+
+const formatMimeTypes: Record<Exclude<ImageOutputFormat, 'original'>, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+const mimeTypeExtensions: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+// Formats the canvas can both decode and encode without losing animation or vectors
+const processableTypes = ['image/png', 'image/jpeg', 'image/webp', 'image/bmp', 'image/avif'];
+
+/**
+ * Resizes and re-encodes raster images in the browser before they are uploaded.
+ */
+export class ImageProcessor {
+  /**
+   * Return a processed copy of the image, or the original file when there is nothing to gain.
+   * Name extension and MIME type of the returned file always match its content.
+   */
+  static async process(file: File, options: ImageProcessingOptions): Promise<File> {
+    if (!processableTypes.includes(file.type)) return file;
+    if (options.skipBelowKB > 0 && file.size < options.skipBelowKB * 1024) return file;
+
+    const bitmap = await createImageBitmap(file);
+    try {
+      const { width, height } = this.fitWithin(
+        bitmap.width,
+        bitmap.height,
+        options.maxWidth,
+        options.maxHeight
+      );
+      const resized = width !== bitmap.width || height !== bitmap.height;
+      // BMP is not worth keeping, store it as PNG
+      const sourceType = file.type === 'image/bmp' ? 'image/png' : file.type;
+      const targetType =
+        options.format === 'original' ? sourceType : formatMimeTypes[options.format];
+
+      if (!resized && targetType === file.type && file.type === 'image/png') {
+        // Re-encoding a PNG at the same size never makes it smaller
+        return file;
+      }
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return file;
+      if (targetType === 'image/jpeg') {
+        // JPEG has no alpha channel, paint transparent pixels white instead of black
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+      }
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(bitmap, 0, 0, width, height);
+
+      let blob = await this.toBlob(canvas, targetType, options.quality);
+      if (blob && blob.type !== targetType && targetType === 'image/avif') {
+        // Chromium cannot encode AVIF everywhere, WebP is the closest fallback
+        blob = await this.toBlob(canvas, 'image/webp', options.quality);
+      }
+      if (!blob) return file;
+      if (!resized && blob.type === file.type && blob.size >= file.size) return file;
+
+      return new File([blob], this.renameExtension(file.name, blob.type), { type: blob.type });
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  /**
+   * Render scaled down copies of the image, one per width narrower than the image and MIME type.
+   * Resolves to the image's own width too, so callers can list the original among the widths.
+   * Images the canvas cannot handle (GIF, SVG) get no variants.
+   */
+  static async renderVariants(
+    file: File,
+    widths: number[],
+    types: string[],
+    quality: number
+  ): Promise<{ width: number; variants: ImageVariant[] }> {
+    if (!processableTypes.includes(file.type)) return { width: 0, variants: [] };
+
+    const bitmap = await createImageBitmap(file);
+    try {
+      const variants: ImageVariant[] = [];
+      for (const width of widths.filter(width => width < bitmap.width)) {
+        const height = Math.max(1, Math.round((bitmap.height * width) / bitmap.width));
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) continue;
+        ctx.imageSmoothingQuality = 'high';
+
+        for (const type of types) {
+          if (type === 'image/jpeg') {
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, width, height);
+          } else {
+            ctx.clearRect(0, 0, width, height);
+          }
+          ctx.drawImage(bitmap, 0, 0, width, height);
+          const blob = await this.toBlob(canvas, type, quality);
+          // Skip formats the browser silently encoded as PNG instead
+          if (!blob || blob.type !== type) continue;
+          variants.push({
+            file: new File([blob], this.renameExtension(file.name, blob.type), { type: blob.type }),
+            width,
+          });
+        }
+      }
+      return { width: bitmap.width, variants };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  /**
+   * Pixel size of an image, or null when the browser cannot decode it.
+   */
+  static async dimensions(file: File): Promise<{ width: number; height: number } | null> {
+    if (!file.type.startsWith('image/')) return null;
+    try {
+      const bitmap = await createImageBitmap(file);
+      const { width, height } = bitmap;
+      bitmap.close();
+      return { width, height };
+    } catch (_) {
+      return null;
+    }
+  }
+
+  static renameExtension(fileName: string, mimeType: string): string {
+    const extension = mimeTypeExtensions[mimeType];
+    if (!extension) return fileName;
+    const baseName = fileName.replace(/\.[^/.]+$/, '');
+    return `${baseName}.${extension}`;
+  }
+
+  private static fitWithin(
+    width: number,
+    height: number,
+    maxWidth: number,
+    maxHeight: number
+  ): { width: number; height: number } {
+    const scale = Math.min(
+      1,
+      maxWidth > 0 ? maxWidth / width : 1,
+      maxHeight > 0 ? maxHeight / height : 1
+    );
+    return {
+      width: Math.max(1, Math.round(width * scale)),
+      height: Math.max(1, Math.round(height * scale)),
+    };
+  }
+
+  private static toBlob(
+    canvas: HTMLCanvasElement,
+    type: string,
+    quality: number
+  ): Promise<Blob | null> {
+    return new Promise(resolve => {
+      canvas.toBlob(resolve, type, Math.min(100, Math.max(1, quality)) / 100);
+    });
+  }
+}
@@ -3,19 +3,59 @@ import * as path from 'path';
 
 export const ACTION_PUBLISH = 'publish';
 
+export type ImageTagSyntax = 'markdown' | 'wikilink' | 'reference' | 'html';
+
 export interface ImageTag {
   originalText: string;
   altText: string;
+  // Link destination without `<...>`, title, size or `#subpath`
   imagePath: string;
+  syntax: ImageTagSyntax;
+  // `"title"` of Markdown images and the title attribute of `<img>`
+  title?: string;
+  // Display size such as `300` or `300x200`, from `|300` or the width/height attributes
+  size?: string;
+  // The part after `#` in `![[file.pdf#page=3]]`
+  subpath?: string;
+  // Label of `![alt][label]`, whose definition holds the path
+  referenceLabel?: string;
   start: number;
   end: number;
 }
 
+interface LinkDefinition {
+  destination: string;
+  title?: string;
+}
+
+const SIZE_PATTERN = /^\d+(x\d+)?$/;
+
+// `[label]: destination "title"` on a line of its own
+const DEFINITION_PATTERN =
+  /^ {0,3}\[([^\]\n]+)\]:[ \t]*(<[^>\n]*>|\S+)(?:[ \t]+("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|\((?:[^()\\\n]|\\.)*\)))?[ \t]*$/gm;
+
+const HTML_ATTRIBUTE_PATTERN =
+  /([a-zA-Z_:][-a-zA-Z0-9_:.]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
 export default class ImageTagProcessor {
   private static readonly videoExtensionRegex =
     /\.(mp4|mov|m4v|webm|ogg|ogv|mkv|avi|mpeg|mpg|mpe|m2v|3gp|3g2)(?=($|[?#]))/i;
 
+  private static readonly imageExtensionRegex =
+    /\.(png|jpe?g|gif|webp|avif|svg|bmp|ico)(?=($|[?#]))/i;
+
   static isVideoAsset(target?: string | null): boolean {
+    return this.matchesExtension(target, this.videoExtensionRegex);
+  }
+
+  /**
+   * Whether the target is an image format the app can display, e.g. for thumbnails.
+   */
+  static isImageAsset(target?: string | null): boolean {
+    return this.matchesExtension(target, this.imageExtensionRegex);
+  }
+
+  private static matchesExtension(target: string | null | undefined, regex: RegExp): boolean {
     if (!target) return false;
     let normalized = target;
     try {
@@ -23,41 +63,424 @@ export default class ImageTagProcessor {
     } catch (_) {
       // ignore decode errors and use the raw string
     }
-    return this.videoExtensionRegex.test(normalized.toLowerCase());
+    return regex.test(normalized.toLowerCase());
   }
 
+  /**
+   * Every image embed of the note: `![alt](path "title")`, `![[file|300]]`, `![alt][ref]`
+   * and `<img>` tags. Code blocks, inline code and `%% comments %%` are skipped.
+   */
   static extractImageTags(content: string): ImageTag[] {
+    const skipped = this.skippedRanges(content);
+    const definitions = this.linkDefinitions(content, skipped);
     const imageTags: ImageTag[] = [];
 
-    // Regular markdown image syntax: ![alt](path)
-    const mdImageRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
+    let index = 0;
+    let range = 0;
+    while (index < content.length) {
+      while (range < skipped.length && skipped[range][1] <= index) range++;
+      if (range < skipped.length && skipped[range][0] <= index) {
+        index = skipped[range][1];
+        continue;
+      }
+
+      const char = content[index];
+      if (char === '\\') {
+        // An escaped `!` or `<` does not start an embed
+        index += 2;
+        continue;
+      }
+
+      let tag: ImageTag | null = null;
+      if (content.startsWith('![[', index)) {
+        tag = this.parseWikiEmbed(content, index);
+      } else if (content.startsWith('![', index)) {
+        tag = this.parseMarkdownImage(content, index, definitions);
+      } else if (char === '<' && /^<img\b/i.test(content.substring(index, index + 5))) {
+        tag = this.parseHtmlImage(content, index);
+      }
+
+      if (tag) {
+        imageTags.push(tag);
+        index = tag.end;
+      } else {
+        index++;
+      }
+    }
+
+    return imageTags;
+  }
+
+  /**
+   * Every media source a note links to: image embeds plus the `src` of HTML media tags,
+   * such as the `<video>` tags written for uploaded videos, and each URL of a `srcset`.
+   */
+  static extractMediaSources(content: string): string[] {
+    const sources = this.extractImageTags(content).map(tag => tag.imagePath);
+
+    // Blank out code and comments so their examples are not counted as links
+    let visible = content;
+    for (const [start, end] of this.skippedRanges(content)) {
+      visible = visible.substring(0, start) + ' '.repeat(end - start) + visible.substring(end);
+    }
+    const htmlSourceRegex = /<(?:video|audio|source)\b[^>]*?\ssrc=["']([^"']+)["']/gi;
     let match;
+    while ((match = htmlSourceRegex.exec(visible)) !== null) {
+      sources.push(match[1]);
+    }
+    // Every width listed by responsive `<img srcset>` and `<picture>` embeds
+    const srcsetRegex = /<(?:img|source)\b[^>]*?\ssrcset=["']([^"']+)["']/gi;
+    while ((match = srcsetRegex.exec(visible)) !== null) {
+      for (const candidate of match[1].split(',')) {
+        const url = candidate.trim().split(/\s+/)[0];
+        if (url) sources.push(url);
+      }
+    }
+
+    return sources;
+  }
+
+  /**
+   * `![alt](path "title")`, or a reference style `![alt][ref]` when `(` does not follow.
+   */
+  private static parseMarkdownImage(
+    content: string,
+    start: number,
+    definitions: Map<string, LinkDefinition>
+  ): ImageTag | null {
+    const labelEnd = this.closingBracket(content, start + 1);
+    if (labelEnd === -1) return null;
+    const label = content.substring(start + 2, labelEnd);
+    const { altText, size } = this.splitSize(label);
 
-    while ((match = mdImageRegex.exec(content)) !== null) {
-      const [originalText, altText, imagePath] = match;
-      imageTags.push({
-        originalText,
+    if (content[labelEnd + 1] === '(') {
+      const link = this.parseInlineLink(content, labelEnd + 2);
+      if (!link || !link.destination) return null;
+      return {
+        originalText: content.substring(start, link.end),
         altText,
-        imagePath,
-        start: match.index,
-        end: match.index + originalText.length,
-      });
+        imagePath: link.destination,
+        syntax: 'markdown',
+        title: link.title,
+        size,
+        start,
+        end: link.end,
+      };
+    }
+
+    // Full `![alt][ref]`, collapsed `![alt][]` or shortcut `![alt]`
+    let referenceLabel = label;
+    let end = labelEnd + 1;
+    if (content[labelEnd + 1] === '[') {
+      const referenceEnd = content.indexOf(']', labelEnd + 2);
+      const inner = referenceEnd === -1 ? '\n' : content.substring(labelEnd + 2, referenceEnd);
+      if (!/[\n[]/.test(inner)) {
+        referenceLabel = inner || label;
+        end = referenceEnd + 1;
+      }
+    }
+    const definition = definitions.get(this.normalizeLabel(referenceLabel));
+    if (!definition) return null;
+    return {
+      originalText: content.substring(start, end),
+      altText,
+      imagePath: definition.destination,
+      syntax: 'reference',
+      title: definition.title,
+      size,
+      referenceLabel,
+      start,
+      end,
+    };
+  }
+
+  /**
+   * `![[path#subpath|alt|300]]`, where the last `|` part is a size when it looks like one.
+   */
+  private static parseWikiEmbed(content: string, start: number): ImageTag | null {
+    const end = content.indexOf(']]', start + 3);
+    if (end === -1) return null;
+    const inner = content.substring(start + 3, end);
+    if (!inner.trim() || inner.includes('\n')) return null;
+
+    const [target, ...options] = inner.split('|');
+    const hash = target.indexOf('#');
+    let size: string | undefined;
+    if (options.length > 0 && SIZE_PATTERN.test(options[options.length - 1].trim())) {
+      size = options.pop()?.trim();
+    }
+    return {
+      originalText: content.substring(start, end + 2),
+      altText: options.join('|').trim(),
+      imagePath: (hash === -1 ? target : target.substring(0, hash)).trim(),
+      syntax: 'wikilink',
+      size,
+      subpath: hash === -1 ? undefined : target.substring(hash + 1).trim() || undefined,
+      start,
+      end: end + 2,
+    };
+  }
+
+  private static parseHtmlImage(content: string, start: number): ImageTag | null {
+    // Find the closing `>` outside of quoted attribute values
+    let quote = '';
+    let end = -1;
+    for (let i = start + 4; i < content.length; i++) {
+      const char = content[i];
+      if (quote) {
+        if (char === quote) quote = '';
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '>') {
+        end = i + 1;
+        break;
+      }
+    }
+    if (end === -1) return null;
+
+    const originalText = content.substring(start, end);
+    const attributes = this.htmlAttributes(originalText.substring(4).replace(/\/?>$/, ''));
+    const src = attributes.get('src');
+    if (!src) return null;
+
+    const width = attributes.get('width');
+    const height = attributes.get('height');
+    let size: string | undefined;
+    if (width && /^\d+$/.test(width)) {
+      size = height && /^\d+$/.test(height) ? `${width}x${height}` : width;
+    }
+    return {
+      originalText,
+      altText: attributes.get('alt') ?? '',
+      imagePath: src,
+      syntax: 'html',
+      title: attributes.get('title'),
+      size,
+      start,
+      end,
+    };
+  }
+
+  /**
+   * The `(destination "title")` part of an inline link, starting after the `(`.
+   */
+  private static parseInlineLink(
+    content: string,
+    start: number
+  ): { destination: string; title?: string; end: number } | null {
+    let i = this.skipSpace(content, start);
+    let destination = '';
+
+    if (content[i] === '<') {
+      i++;
+      while (i < content.length && content[i] !== '>') {
+        if (content[i] === '\n' || content[i] === '<') return null;
+        if (content[i] === '\\' && i + 1 < content.length) i++;
+        destination += content[i++];
+      }
+      if (content[i] !== '>') return null;
+      i++;
+    } else {
+      // Bare destinations end at whitespace or at a `)` that closes no `(` of their own
+      let depth = 0;
+      while (i < content.length && !/\s/.test(content[i])) {
+        const char = content[i];
+        if (char === '(') depth++;
+        if (char === ')' && depth-- === 0) break;
+        if (char === '\\' && i + 1 < content.length && /[()\\]/.test(content[i + 1])) i++;
+        destination += content[i++];
+      }
+    }
+
+    const afterDestination = i;
+    i = this.skipSpace(content, i);
+    let title: string | undefined;
+    const opener = content[i];
+    if (i > afterDestination && (opener === '"' || opener === "'" || opener === '(')) {
+      const closer = opener === '(' ? ')' : opener;
+      title = '';
+      i++;
+      while (i < content.length && content[i] !== closer) {
+        if (content[i] === '\\' && i + 1 < content.length) i++;
+        title += content[i++];
+      }
+      if (content[i] !== closer) return null;
+      i = this.skipSpace(content, i + 1);
     }
 
-    // Obsidian wiki link syntax: ![[image.png]]
-    const wikiImageRegex = /!\[\[([^\]]+)\]\]/g;
-    while ((match = wikiImageRegex.exec(content)) !== null) {
-      const [originalText, imagePath] = match;
-      imageTags.push({
-        originalText,
-        altText: '', // Wiki links don't have alt text
-        imagePath,
-        start: match.index,
-        end: match.index + originalText.length,
+    if (content[i] !== ')') return null;
+    return { destination, title, end: i + 1 };
+  }
+
+  /**
+   * Index of the `]` closing the `[` at `start`, or -1. Brackets nest and a blank line ends the search.
+   */
+  private static closingBracket(content: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < content.length; i++) {
+      const char = content[i];
+      if (char === '\\') {
+        i++;
+      } else if (char === '[') {
+        depth++;
+      } else if (char === ']') {
+        if (--depth === 0) return i;
+      } else if (char === '\n' && content[i + 1] === '\n') {
+        return -1;
+      }
+    }
+    return -1;
+  }
+
+  private static skipSpace(content: string, start: number): number {
+    let i = start;
+    let newlines = 0;
+    while (i < content.length && /\s/.test(content[i])) {
+      // One line break is fine, a blank line ends the link
+      if (content[i] === '\n' && ++newlines > 1) break;
+      i++;
+    }
+    return i;
+  }
+
+  /**
+   * Obsidian writes the size into the alt text: `![alt|300](...)` or `![|300x200](...)`.
+   */
+  private static splitSize(label: string): { altText: string; size?: string } {
+    const pipe = label.lastIndexOf('|');
+    if (pipe !== -1 && SIZE_PATTERN.test(label.substring(pipe + 1).trim())) {
+      return { altText: label.substring(0, pipe), size: label.substring(pipe + 1).trim() };
+    }
+    return { altText: label };
+  }
+
+  private static htmlAttributes(source: string): Map<string, string> {
+    const attributes = new Map<string, string>();
+    let match;
+    HTML_ATTRIBUTE_PATTERN.lastIndex = 0;
+    while ((match = HTML_ATTRIBUTE_PATTERN.exec(source)) !== null) {
+      const name = match[1].toLowerCase();
+      if (!attributes.has(name)) {
+        attributes.set(name, this.decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? ''));
+      }
+    }
+    return attributes;
+  }
+
+  private static decodeHtmlEntities(value: string): string {
+    return value
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&apos;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+
+  private static linkDefinitions(
+    content: string,
+    skipped: [number, number][]
+  ): Map<string, LinkDefinition> {
+    const definitions = new Map<string, LinkDefinition>();
+    let match;
+    DEFINITION_PATTERN.lastIndex = 0;
+    while ((match = DEFINITION_PATTERN.exec(content)) !== null) {
+      const index = match.index;
+      if (skipped.some(([start, end]) => index >= start && index < end)) continue;
+      const label = this.normalizeLabel(match[1]);
+      // The first definition of a label wins
+      if (definitions.has(label)) continue;
+      definitions.set(label, {
+        destination: match[2].replace(/^<|>$/g, ''),
+        title: match[3] ? match[3].slice(1, -1).replace(/\\(.)/g, '$1') : undefined,
       });
     }
+    return definitions;
+  }
 
-    return imageTags;
+  private static normalizeLabel(label: string): string {
+    return label.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  /**
+   * Ranges whose embeds are not real: fenced code blocks, inline code, `%% comments %%`
+   * and `<!-- comments -->`. Sorted and not overlapping.
+   */
+  private static skippedRanges(content: string): [number, number][] {
+    const ranges: [number, number][] = [];
+    const fencePattern = / {0,3}(`{3,}|~{3,})[^\n]*/y;
+    let index = 0;
+    let lineStart = true;
+
+    while (index < content.length) {
+      if (lineStart) {
+        fencePattern.lastIndex = index;
+        const fence = fencePattern.exec(content);
+        // Backtick fences cannot have backticks in their info string
+        const info = fence ? fence[0].trim().substring(fence[1].length) : '';
+        if (fence && !(fence[1][0] === '`' && info.includes('`'))) {
+          const end = this.fenceEnd(content, index + fence[0].length, fence[1]);
+          ranges.push([index, end]);
+          index = end;
+          continue;
+        }
+      }
+
+      const char = content[index];
+      lineStart = char === '\n';
+      if (char === '\\') {
+        index += 2;
+      } else if (char === '`') {
+        let length = 1;
+        while (content[index + length] === '`') length++;
+        const end = this.codeSpanEnd(content, index + length, length);
+        if (end === -1) {
+          index += length;
+        } else {
+          ranges.push([index, end]);
+          index = end;
+        }
+      } else if (content.startsWith('%%', index)) {
+        // An unclosed comment hides the rest of the note, as in Obsidian
+        const close = content.indexOf('%%', index + 2);
+        const end = close === -1 ? content.length : close + 2;
+        ranges.push([index, end]);
+        index = end;
+      } else if (content.startsWith('<!--', index)) {
+        const close = content.indexOf('-->', index + 4);
+        const end = close === -1 ? content.length : close + 3;
+        ranges.push([index, end]);
+        index = end;
+      } else {
+        index++;
+      }
+    }
+    return ranges;
+  }
+
+  /**
+   * End of the fenced code block opened by `fence`, the whole note when it is never closed.
+   */
+  private static fenceEnd(content: string, from: number, fence: string): number {
+    const closing = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`);
+    let lineStart = content.indexOf('\n', from);
+    while (lineStart !== -1) {
+      const lineEnd = content.indexOf('\n', lineStart + 1);
+      const line = content.substring(lineStart + 1, lineEnd === -1 ? content.length : lineEnd);
+      if (closing.test(line)) return lineEnd === -1 ? content.length : lineEnd;
+      lineStart = lineEnd;
+    }
+    return content.length;
+  }
+
+  /**
+   * End of an inline code span opened by `length` backticks, or -1 when no run of the same
+   * length closes it (the backticks are then literal).
+   */
+  private static codeSpanEnd(content: string, from: number, length: number): number {
+    const closing = new RegExp(`(?<!\`)\`{${length}}(?!\`)`, 'g');
+    closing.lastIndex = from;
+    const match = closing.exec(content);
+    return match ? match.index + length : -1;
   }
 
   static resolveImagePath(
@@ -93,42 +516,18 @@ export default class ImageTagProcessor {
   }
 
   static isLocalImage(imagePath: string): boolean {
-    // Check if the image path is a local file (not a URL)
-    return (
-      !imagePath.startsWith('http://') &&
-      !imagePath.startsWith('https://') &&
-      !imagePath.startsWith('data:')
-    );
+    // Anything with a scheme (http:, data:, r2://...) lives outside the vault
+    return !/^[a-z][a-z0-9+.-]*:/i.test(imagePath.trim());
   }
 
-  static replaceImageTag(content: string, imageTag: ImageTag, newUrl: string): string {
-    let newImageTag: string;
-
-    const isVideo =
-      ImageTagProcessor.isVideoAsset(imageTag.imagePath) ||
-      ImageTagProcessor.isVideoAsset(newUrl);
-
-    if (isVideo) {
-      // Videos should render with HTML video tag so playback controls are available.
-      newImageTag = `<video controls src="${newUrl}"></video>`;
-      return (
-        content.substring(0, imageTag.start) +
-        newImageTag +
-        content.substring(imageTag.end)
-      );
-    }
-
-    // Check if it's a wiki link format
-    if (imageTag.originalText.startsWith('![[') && imageTag.originalText.endsWith(']]')) {
-      // Convert wiki link to markdown image
-      newImageTag = `![](${newUrl})`;
-    } else {
-      // Regular markdown image
-      newImageTag = `![${imageTag.altText}](${newUrl})`;
-    }
-
-    return (
-      content.substring(0, imageTag.start) + newImageTag + content.substring(imageTag.end)
+  /**
+   * The `<img>` tag pointing at `newUrl`, keeping every other attribute the author wrote.
+   * Every other embed is rendered by the plugin from its attachment type.
+   */
+  static replaceImageSource(imageTag: ImageTag, newUrl: string): string {
+    return imageTag.originalText.replace(
+      /(\ssrc\s*=\s*)(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+)/i,
+      (_match, prefix: string) => `${prefix}"${newUrl.replace(/"/g, '&quot;')}"`
     );
   }
 
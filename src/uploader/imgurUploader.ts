@@ -1,4 +1,5 @@
 import { UploaderUtils } from '../uploader/uploaderUtils';
+import { ListObjectsResult, Uploader, UploadResult } from '../uploader/uploader';
 
 export interface ImgurSetting {
   clientId: string;
@@ -6,7 +7,7 @@ export interface ImgurSetting {
   customDomainName: string;
 }
 
-export class ImgurUploader {
+export class ImgurUploader implements Uploader {
   private readonly clientId: string;
   private readonly pathTemplate: string;
   private readonly customDomainName: string;
@@ -17,7 +18,7 @@ export class ImgurUploader {
     this.customDomainName = setting.customDomainName;
   }
 
-  async upload(image: File): Promise<string> {
+  async upload(image: File): Promise<UploadResult> {
     const arrayBuffer = await this.readFileAsArrayBuffer(image);
     const base64 = this.arrayBufferToBase64(arrayBuffer);
 
@@ -41,7 +42,12 @@ export class ImgurUploader {
       const data = await response.json();
 
       if (data.success) {
-        return data.data.link;
+        const link: string = data.data.link;
+        return {
+          url: link,
+          key: link.split('/').pop() ?? data.data.id,
+          deleteToken: data.data.deletehash,
+        };
       } else {
         throw new Error(`Imgur upload failed: ${data.data?.error || 'Unknown error'}`);
       }
@@ -50,6 +56,49 @@ export class ImgurUploader {
     }
   }
 
+  /**
+   * Anonymous uploads can only be deleted with their deletehash, which upload() returns
+   * as `deleteToken`. Without it there is nothing to send.
+   */
+  async delete(key: string, deleteToken?: string): Promise<void> {
+    if (!deleteToken) {
+      throw new Error(`Imgur cannot delete ${key} without the deletehash of its upload`);
+    }
+    const url = `https://api.imgur.com/3/image/${encodeURIComponent(deleteToken)}`;
+    const response = await fetch(url, {
+      method: 'DELETE',
+      headers: {
+        Authorization: `Client-ID ${this.clientId}`,
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Imgur API error: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    // Imgur keys look like "abc123.png", the API only wants the id
+    const imageId = key.split('/').pop()?.replace(/\.[^.]+$/, '') ?? key;
+    const response = await fetch(`https://api.imgur.com/3/image/${encodeURIComponent(imageId)}`, {
+      headers: {
+        Authorization: `Client-ID ${this.clientId}`,
+      },
+    });
+    if (response.status === 404) return false;
+    if (!response.ok) {
+      throw new Error(`Imgur API error: ${response.status} ${response.statusText}`);
+    }
+    return true;
+  }
+
+  async list(_prefix: string, _continuationToken?: string): Promise<ListObjectsResult> {
+    throw new Error('Imgur does not support listing anonymous uploads');
+  }
+
+  publicUrl(key: string): string {
+    return `https://i.imgur.com/${key}`;
+  }
+
   private readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
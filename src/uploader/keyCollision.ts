@@ -0,0 +1,80 @@
+export type OverwritePolicy = 'overwrite' | 'reuse' | 'suffix' | 'fail';
+
+export interface KeyChoice {
+  key: string;
+  // True when the policy settled on an object that was already in the bucket
+  existed: boolean;
+}
+
+/**
+ * Thrown under the `fail` policy, or when no free suffix is left.
+ */
+export class KeyExistsError extends Error {
+  readonly key: string;
+
+  constructor(key: string) {
+    super(`An object already exists at ${key}`);
+    this.name = 'KeyExistsError';
+    this.key = key;
+  }
+}
+
+const MAX_SUFFIX = 100;
+
+/**
+ * Write an object following the policy. `put` performs the write and, when `conditional`
+ * is set, must refuse to replace an existing object (e.g. `If-None-Match: *`) and resolve
+ * to false in that case. Backends without conditional writes rely on the `exists` check alone.
+ */
+export async function putWithPolicy(
+  key: string,
+  policy: OverwritePolicy,
+  exists: (key: string) => Promise<boolean>,
+  put: (key: string, conditional: boolean) => Promise<boolean>
+): Promise<KeyChoice> {
+  if (policy === 'overwrite') {
+    await put(key, false);
+    return { key, existed: false };
+  }
+
+  for (let attempt = 0; attempt <= MAX_SUFFIX; attempt++) {
+    const candidate = attempt === 0 ? key : suffixedKey(key, attempt);
+    // Another upload may take the key between the check and the write, the conditional write catches that
+    if (!(await exists(candidate)) && (await put(candidate, true))) {
+      return { key: candidate, existed: false };
+    }
+    if (policy === 'reuse') return { key: candidate, existed: true };
+    if (policy === 'fail') throw new KeyExistsError(candidate);
+  }
+  throw new KeyExistsError(key);
+}
+
+/**
+ * Pick the key for an upload that cannot be written conditionally in one request (multipart).
+ */
+export async function chooseKey(
+  key: string,
+  policy: OverwritePolicy,
+  exists: (key: string) => Promise<boolean>
+): Promise<KeyChoice> {
+  if (policy === 'overwrite' || !(await exists(key))) return { key, existed: false };
+  if (policy === 'reuse') return { key, existed: true };
+  if (policy === 'fail') throw new KeyExistsError(key);
+
+  for (let attempt = 1; attempt <= MAX_SUFFIX; attempt++) {
+    const candidate = suffixedKey(key, attempt);
+    if (!(await exists(candidate))) return { key: candidate, existed: false };
+  }
+  throw new KeyExistsError(key);
+}
+
+/**
+ * `photos/cat.png` becomes `photos/cat-1.png`, `photos/cat-2.png`...
+ */
+export function suffixedKey(key: string, suffix: number): string {
+  const slash = key.lastIndexOf('/');
+  const dot = key.lastIndexOf('.');
+  return dot > slash + 1
+    ? `${key.substring(0, dot)}-${suffix}${key.substring(dot)}`
+    : `${key}-${suffix}`;
+}
@@ -0,0 +1,418 @@
+type ImageContainer = 'jpeg' | 'png' | 'webp' | 'heif';
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME'];
+const ORIENTATION_TAG = 0x0112;
+
+interface Box {
+  type: string;
+  start: number;
+  // offset of the box payload
+  dataStart: number;
+  end: number;
+}
+
+/**
+ * Removes EXIF, XMP and IPTC metadata (GPS position, camera serials, comments...) from images
+ * by rewriting the container, so pixels are never re-encoded.
+ */
+export class MetadataStripper {
+  /**
+   * Whether the file is in a format that can be sanitized, judged by its content.
+   */
+  static async supports(file: File): Promise<boolean> {
+    const head = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+    return this.detect(head) !== null;
+  }
+
+  /**
+   * Return a copy of the image without metadata.
+   * With keepOrientation, a minimal EXIF block holding only the orientation is written back
+   * so rotated photos still display upright. Throws when the file cannot be parsed.
+   */
+  static async strip(file: File, keepOrientation: boolean): Promise<File> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    let stripped: Uint8Array;
+    switch (this.detect(bytes)) {
+      case 'jpeg':
+        stripped = this.stripJpeg(bytes, keepOrientation);
+        break;
+      case 'png':
+        stripped = this.stripPng(bytes, keepOrientation);
+        break;
+      case 'webp':
+        stripped = this.stripWebp(bytes, keepOrientation);
+        break;
+      case 'heif':
+        // HEIF stores rotation in the irot property, not in EXIF
+        stripped = this.stripHeif(bytes);
+        break;
+      default:
+        throw new Error(`Unsupported image format: ${file.type || file.name}`);
+    }
+
+    return new File([stripped], file.name, { type: file.type, lastModified: file.lastModified });
+  }
+
+  private static detect(bytes: Uint8Array): ImageContainer | null {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+    if (this.startsWith(bytes, PNG_SIGNATURE)) return 'png';
+    if (this.fourCC(bytes, 0) === 'RIFF' && this.fourCC(bytes, 8) === 'WEBP') return 'webp';
+    if (this.fourCC(bytes, 4) === 'ftyp') {
+      const brand = this.fourCC(bytes, 8);
+      if (['heic', 'heix', 'heim', 'heis', 'hevc', 'mif1', 'msf1', 'avif', 'avis'].includes(brand)) {
+        return 'heif';
+      }
+    }
+    return null;
+  }
+
+  private static stripJpeg(bytes: Uint8Array, keepOrientation: boolean): Uint8Array {
+    const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+    let orientation = 1;
+    let offset = 2;
+
+    while (offset < bytes.length) {
+      if (bytes[offset] !== 0xff) throw new Error('Invalid JPEG marker');
+      const marker = bytes[offset + 1];
+      if (marker === 0xff) {
+        // fill byte before a marker
+        offset++;
+        continue;
+      }
+      if (marker === 0xda) {
+        // Start of scan: copy the image data up to EOI. Anything after it (MPF thumbnails,
+        // depth maps) is a separate image carrying its own EXIF, so it is dropped.
+        parts.push(bytes.subarray(offset, this.findJpegEnd(bytes, offset)));
+        break;
+      }
+      if ((marker >= 0xd0 && marker <= 0xd9) || marker === 0x01) {
+        // standalone markers have no length
+        parts.push(bytes.subarray(offset, offset + 2));
+        offset += 2;
+        continue;
+      }
+
+      const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+      if (end > bytes.length) throw new Error('Truncated JPEG segment');
+      const payload = bytes.subarray(offset + 4, end);
+
+      if (marker === 0xe1) {
+        // APP1 holds EXIF or XMP
+        if (this.startsWith(payload, EXIF_HEADER)) {
+          orientation = this.readOrientation(payload.subarray(EXIF_HEADER.length));
+        }
+      } else if (marker === 0xed || marker === 0xfe) {
+        // APP13 (Photoshop/IPTC) and comments
+      } else if (marker === 0xe2 && this.fourCC(payload, 0) === 'MPF\0') {
+        // Multi-picture index pointing at the images dropped above
+      } else {
+        parts.push(bytes.subarray(offset, end));
+      }
+      offset = end;
+    }
+
+    if (keepOrientation && orientation !== 1) {
+      const tiff = this.orientationTiff(orientation);
+      const segment = new Uint8Array(4 + EXIF_HEADER.length + tiff.length);
+      const length = segment.length - 2;
+      segment.set([0xff, 0xe1, length >> 8, length & 0xff], 0);
+      segment.set(EXIF_HEADER, 4);
+      segment.set(tiff, 4 + EXIF_HEADER.length);
+      // JFIF requires APP0 to come right after SOI
+      const insertAt = parts.length > 1 && parts[1][1] === 0xe0 ? 2 : 1;
+      parts.splice(insertAt, 0, segment);
+    }
+
+    return this.concat(parts);
+  }
+
+  private static findJpegEnd(bytes: Uint8Array, from: number): number {
+    for (let i = from + 2; i < bytes.length - 1; i++) {
+      // 0xFF00 is a stuffed byte and 0xFFD0-D7 are restart markers, only 0xFFD9 ends the image
+      if (bytes[i] === 0xff && bytes[i + 1] === 0xd9) return i + 2;
+    }
+    return bytes.length;
+  }
+
+  private static stripPng(bytes: Uint8Array, keepOrientation: boolean): Uint8Array {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+    let orientation = 1;
+    let offset = PNG_SIGNATURE.length;
+
+    while (offset + 12 <= bytes.length) {
+      const length = view.getUint32(offset);
+      const type = this.fourCC(bytes, offset + 4);
+      const end = offset + 12 + length;
+      if (end > bytes.length) throw new Error('Truncated PNG chunk');
+
+      if (type === 'eXIf') {
+        orientation = this.readOrientation(bytes.subarray(offset + 8, offset + 8 + length));
+      } else if (!PNG_METADATA_CHUNKS.includes(type)) {
+        parts.push(bytes.subarray(offset, end));
+      }
+      offset = end;
+      if (type === 'IEND') break;
+    }
+
+    if (keepOrientation && orientation !== 1) {
+      // eXIf has to come before the image data, right after IHDR is always valid
+      parts.splice(2, 0, this.pngChunk('eXIf', this.orientationTiff(orientation)));
+    }
+
+    return this.concat(parts);
+  }
+
+  private static pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, this.crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+  }
+
+  private static stripWebp(bytes: Uint8Array, keepOrientation: boolean): Uint8Array {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const parts: Uint8Array[] = [];
+    let vp8x: Uint8Array | null = null;
+    let orientation = 1;
+    let offset = 12;
+
+    while (offset + 8 <= bytes.length) {
+      const type = this.fourCC(bytes, offset);
+      const size = view.getUint32(offset + 4, true);
+      const end = offset + 8 + size + (size % 2);
+      if (offset + 8 + size > bytes.length) throw new Error('Truncated WebP chunk');
+
+      if (type === 'EXIF') {
+        let tiff = bytes.subarray(offset + 8, offset + 8 + size);
+        // Some writers keep the JPEG style "Exif\0\0" prefix
+        if (this.startsWith(tiff, EXIF_HEADER)) tiff = tiff.subarray(EXIF_HEADER.length);
+        orientation = this.readOrientation(tiff);
+      } else if (type !== 'XMP ') {
+        const chunk = bytes.slice(offset, Math.min(end, bytes.length));
+        if (type === 'VP8X') vp8x = chunk;
+        parts.push(chunk);
+      }
+      offset = end;
+    }
+
+    const writeOrientation = keepOrientation && orientation !== 1 && vp8x !== null;
+    if (vp8x) {
+      // Flags: 0x08 EXIF present, 0x04 XMP present
+      vp8x[8] = (vp8x[8] & ~0x0c) | (writeOrientation ? 0x08 : 0);
+    }
+    if (writeOrientation) {
+      const tiff = this.orientationTiff(orientation);
+      const chunk = new Uint8Array(8 + tiff.length + (tiff.length % 2));
+      chunk.set([0x45, 0x58, 0x49, 0x46], 0); // "EXIF"
+      new DataView(chunk.buffer).setUint32(4, tiff.length, true);
+      chunk.set(tiff, 8);
+      parts.push(chunk);
+    }
+
+    const body = this.concat(parts);
+    const header = bytes.slice(0, 12);
+    new DataView(header.buffer).setUint32(4, body.length + 4, true);
+    return this.concat([header, body]);
+  }
+
+  /**
+   * HEIF/AVIF keep EXIF and XMP as items of the meta box. Rewriting the box tree is risky,
+   * so the item payloads are overwritten with zeros in place and all offsets stay valid.
+   */
+  private static stripHeif(bytes: Uint8Array): Uint8Array {
+    const result = bytes.slice();
+    const meta = this.readBoxes(result, 0, result.length).find(box => box.type === 'meta');
+    if (!meta) return result;
+
+    // meta is a full box: skip version and flags
+    const children = this.readBoxes(result, meta.dataStart + 4, meta.end);
+    const iinf = children.find(box => box.type === 'iinf');
+    const iloc = children.find(box => box.type === 'iloc');
+    if (!iinf || !iloc) return result;
+
+    const metadataItems = this.readMetadataItemIds(result, iinf);
+    if (metadataItems.size === 0) return result;
+
+    for (const extent of this.readItemExtents(result, iloc, metadataItems)) {
+      if (extent.offset + extent.length > result.length) {
+        throw new Error('HEIF item extent out of range');
+      }
+      result.fill(0, extent.offset, extent.offset + extent.length);
+    }
+    return result;
+  }
+
+  private static readMetadataItemIds(bytes: Uint8Array, iinf: Box): Set<number> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const version = bytes[iinf.dataStart];
+    const entriesStart = iinf.dataStart + 4 + (version === 0 ? 2 : 4);
+    const ids = new Set<number>();
+
+    for (const infe of this.readBoxes(bytes, entriesStart, iinf.end)) {
+      if (infe.type !== 'infe') continue;
+      const infeVersion = bytes[infe.dataStart];
+      if (infeVersion < 2) continue;
+
+      let offset = infe.dataStart + 4;
+      const itemId = infeVersion === 2 ? view.getUint16(offset) : view.getUint32(offset);
+      offset += (infeVersion === 2 ? 2 : 4) + 2; // item_ID, item_protection_index
+      const itemType = this.fourCC(bytes, offset);
+      offset += 4;
+
+      if (itemType === 'Exif') {
+        ids.add(itemId);
+      } else if (itemType === 'mime') {
+        // item_name, then content_type, both null terminated
+        while (offset < infe.end && bytes[offset] !== 0) offset++;
+        const contentTypeStart = offset + 1;
+        let contentTypeEnd = contentTypeStart;
+        while (contentTypeEnd < infe.end && bytes[contentTypeEnd] !== 0) contentTypeEnd++;
+        const contentType = String.fromCharCode(...bytes.subarray(contentTypeStart, contentTypeEnd));
+        if (contentType === 'application/rdf+xml') ids.add(itemId);
+      }
+    }
+    return ids;
+  }
+
+  private static readItemExtents(
+    bytes: Uint8Array,
+    iloc: Box,
+    itemIds: Set<number>
+  ): { offset: number; length: number }[] {
+    const version = bytes[iloc.dataStart];
+    let offset = iloc.dataStart + 4;
+    const offsetSize = bytes[offset] >> 4;
+    const lengthSize = bytes[offset] & 0x0f;
+    const baseOffsetSize = bytes[offset + 1] >> 4;
+    const indexSize = version === 1 || version === 2 ? bytes[offset + 1] & 0x0f : 0;
+    offset += 2;
+
+    const readUint = (size: number): number => {
+      let value = 0;
+      for (let i = 0; i < size; i++) value = value * 256 + bytes[offset + i];
+      offset += size;
+      return value;
+    };
+
+    const itemCount = readUint(version < 2 ? 2 : 4);
+    const extents: { offset: number; length: number }[] = [];
+
+    for (let i = 0; i < itemCount; i++) {
+      const itemId = readUint(version < 2 ? 2 : 4);
+      const constructionMethod = version === 1 || version === 2 ? readUint(2) & 0x0f : 0;
+      readUint(2); // data_reference_index
+      const baseOffset = readUint(baseOffsetSize);
+      const extentCount = readUint(2);
+
+      for (let j = 0; j < extentCount; j++) {
+        readUint(indexSize);
+        const extentOffset = readUint(offsetSize);
+        const extentLength = readUint(lengthSize);
+        if (!itemIds.has(itemId)) continue;
+        if (constructionMethod !== 0) {
+          throw new Error('HEIF metadata stored outside of the file data is not supported');
+        }
+        extents.push({ offset: baseOffset + extentOffset, length: extentLength });
+      }
+    }
+    return extents;
+  }
+
+  private static readBoxes(bytes: Uint8Array, start: number, end: number): Box[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const boxes: Box[] = [];
+    let offset = start;
+
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset);
+      const type = this.fourCC(bytes, offset + 4);
+      let dataStart = offset + 8;
+      if (size === 1) {
+        size = Number(view.getBigUint64(offset + 8));
+        dataStart += 8;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < 8 || offset + size > end) throw new Error(`Invalid box size for ${type}`);
+      boxes.push({ type, start: offset, dataStart, end: offset + size });
+      offset += size;
+    }
+    return boxes;
+  }
+
+  /**
+   * Read the orientation tag (0x0112) of IFD0 from a TIFF structure, 1 when missing.
+   */
+  private static readOrientation(tiff: Uint8Array): number {
+    try {
+      const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+      const littleEndian = tiff[0] === 0x49; // "II"
+      const ifdOffset = view.getUint32(4, littleEndian);
+      const entryCount = view.getUint16(ifdOffset, littleEndian);
+      for (let i = 0; i < entryCount; i++) {
+        const entry = ifdOffset + 2 + i * 12;
+        if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+          const value = view.getUint16(entry + 8, littleEndian);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+    } catch (_) {
+      // unreadable EXIF, treat as upright
+    }
+    return 1;
+  }
+
+  /**
+   * Minimal big-endian TIFF structure with a single IFD0 entry: the orientation.
+   */
+  private static orientationTiff(orientation: number): Uint8Array {
+    const tiff = new Uint8Array(26);
+    const view = new DataView(tiff.buffer);
+    tiff.set([0x4d, 0x4d, 0x00, 0x2a], 0); // "MM", 42
+    view.setUint32(4, 8); // IFD0 offset
+    view.setUint16(8, 1); // entry count
+    view.setUint16(10, ORIENTATION_TAG);
+    view.setUint16(12, 3); // SHORT
+    view.setUint32(14, 1); // count
+    view.setUint16(18, orientation);
+    view.setUint32(22, 0); // no next IFD
+    return tiff;
+  }
+
+  private static crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc ^= data[i];
+      for (let k = 0; k < 8; k++) {
+        crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+      }
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  private static fourCC(bytes: Uint8Array, offset: number): string {
+    if (offset + 4 > bytes.length) return '';
+    return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+  }
+
+  private static startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+    return prefix.every((b, i) => bytes[i] === b);
+  }
+
+  private static concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+}
@@ -0,0 +1,73 @@
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  tiff: 'image/tiff',
+  tif: 'image/tiff',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  m4v: 'video/x-m4v',
+  webm: 'video/webm',
+  ogv: 'video/ogg',
+  mkv: 'video/x-matroska',
+  avi: 'video/x-msvideo',
+  mpg: 'video/mpeg',
+  mpeg: 'video/mpeg',
+  mpe: 'video/mpeg',
+  m2v: 'video/mpeg',
+  '3gp': 'video/3gpp',
+  '3g2': 'video/3gpp2',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/opus',
+  flac: 'audio/flac',
+  aac: 'audio/aac',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  '7z': 'application/x-7z-compressed',
+  rar: 'application/vnd.rar',
+  tar: 'application/x-tar',
+  gz: 'application/gzip',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  csv: 'text/csv',
+  epub: 'application/epub+zip',
+};
+
+export function mimeTypeFromExtension(extension: string): string {
+  if (!extension) return 'application/octet-stream';
+  return EXTENSION_MIME_TYPES[extension.toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * The usual extension for a MIME type, falling back to its subtype.
+ */
+export function extensionFromMimeType(mimeType: string): string {
+  const extension = Object.keys(EXTENSION_MIME_TYPES).find(
+    key => EXTENSION_MIME_TYPES[key] === mimeType
+  );
+  return extension ?? (mimeType.split('/')[1] || 'png');
+}
+
+/**
+ * The file's own type when the browser knows it, otherwise a guess from the extension.
+ */
+export function mimeTypeOf(file: { name: string; type: string }): string {
+  if (file.type && file.type !== 'application/octet-stream') return file.type;
+  const name = file.name.split('/').pop() ?? '';
+  return mimeTypeFromExtension(name.includes('.') ? name.split('.').pop() ?? '' : '');
+}
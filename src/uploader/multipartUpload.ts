@@ -0,0 +1,239 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { runPool } from '../uploader/workerPool';
+import { UploadOptions } from '../uploader/uploader';
+
+/**
+ * Bytes to upload, read a range at a time so large files never sit in memory whole.
+ */
+export interface UploadBody {
+  name: string;
+  type: string;
+  size: number;
+  read(start: number, end: number): Promise<Uint8Array>;
+}
+
+export interface CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
+/**
+ * Everything needed to resume a multipart upload, saved after every finished part.
+ */
+export interface MultipartCheckpoint {
+  key: string;
+  uploadId: string;
+  partSize: number;
+  size: number;
+  parts: CompletedPart[];
+}
+
+export interface MultipartOptions extends UploadOptions {
+  // Resume from here instead of starting a new upload
+  checkpoint?: MultipartCheckpoint;
+  onCheckpoint?(checkpoint: MultipartCheckpoint): Promise<void> | void;
+  onProgress?(sent: number, total: number): void;
+  // Content hash for `{hash}` path templates, computed when missing
+  hash?: string;
+  partSize?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * The S3 multipart API calls a backend has to provide.
+ */
+export interface MultipartBackend {
+  // Starts the upload with the object's headers and resolves to its upload id
+  create(key: string): Promise<string>;
+  // Resolves to the part's ETag, or '' when the response does not expose it
+  uploadPart(key: string, uploadId: string, partNumber: number, bytes: Uint8Array): Promise<string>;
+  listParts(key: string, uploadId: string): Promise<CompletedPart[]>;
+  complete(key: string, uploadId: string, parts: CompletedPart[]): Promise<void>;
+  abort(key: string, uploadId: string): Promise<void>;
+}
+
+/**
+ * Thrown by backends when the upload id is unknown, e.g. it was aborted or expired.
+ */
+export class MultipartUploadGoneError extends Error {
+  constructor(uploadId: string) {
+    super(`Multipart upload ${uploadId} no longer exists`);
+    this.name = 'MultipartUploadGoneError';
+  }
+}
+
+export const MIN_PART_SIZE = 5 * 1024 * 1024;
+const MAX_PARTS = 10000;
+const PART_CONCURRENCY = 3;
+const PART_ATTEMPTS = 5;
+const BASE_PART_RETRY_DELAY_MS = 1000;
+
+/**
+ * Upload the body in parts through the backend. Parts are retried on their own, and the
+ * checkpoint lets a later call continue where an interrupted one stopped.
+ * Returns the object key, which comes from the checkpoint when resuming.
+ */
+export async function runMultipartUpload(
+  backend: MultipartBackend,
+  body: UploadBody,
+  key: string,
+  options: MultipartOptions = {}
+): Promise<string> {
+  let checkpoint = options.checkpoint;
+  if (checkpoint && checkpoint.size === body.size) {
+    try {
+      // The server knows best which parts arrived before we were interrupted
+      checkpoint.parts = await backend.listParts(checkpoint.key, checkpoint.uploadId);
+    } catch (error) {
+      if (!(error instanceof MultipartUploadGoneError)) throw error;
+      checkpoint = undefined;
+    }
+  } else {
+    checkpoint = undefined;
+  }
+
+  if (!checkpoint) {
+    checkpoint = {
+      key,
+      uploadId: await backend.create(key),
+      partSize: partSizeFor(body.size, options.partSize),
+      size: body.size,
+      parts: [],
+    };
+  }
+  const current = checkpoint;
+  await options.onCheckpoint?.(current);
+
+  const partCount = Math.max(1, Math.ceil(body.size / current.partSize));
+  const done = new Set(current.parts.map(part => part.partNumber));
+  let sent = current.parts.reduce(
+    (total, part) => total + partLength(current, part.partNumber),
+    0
+  );
+  options.onProgress?.(sent, body.size);
+
+  const pending: number[] = [];
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (!done.has(partNumber)) pending.push(partNumber);
+  }
+
+  await runPool(
+    pending,
+    PART_CONCURRENCY,
+    async partNumber => {
+      const start = (partNumber - 1) * current.partSize;
+      const bytes = await body.read(start, Math.min(start + current.partSize, body.size));
+      const etag = await withRetry(
+        () => backend.uploadPart(current.key, current.uploadId, partNumber, bytes),
+        options.signal
+      );
+      current.parts.push({ partNumber, etag });
+      sent += bytes.length;
+      options.onProgress?.(sent, body.size);
+      await options.onCheckpoint?.(current);
+    },
+    options.signal
+  );
+
+  if (options.signal?.aborted) {
+    throw new Error('Upload cancelled');
+  }
+
+  // Without an exposed ETag header the part list is the only place to learn the ETags
+  let parts = current.parts;
+  if (parts.length < partCount || parts.some(part => !part.etag)) {
+    parts = await backend.listParts(current.key, current.uploadId);
+  }
+  parts.sort((a, b) => a.partNumber - b.partNumber);
+  await withRetry(() => backend.complete(current.key, current.uploadId, parts), options.signal);
+  return current.key;
+}
+
+/**
+ * An upload body over a Blob. Slices of disk-backed files (drops, pastes) are read lazily.
+ */
+export function blobBody(file: File): UploadBody {
+  return {
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    read: async (start, end) => new Uint8Array(await file.slice(start, end).arrayBuffer()),
+  };
+}
+
+/**
+ * An upload body over a file on disk, read with positioned reads.
+ */
+export function diskBody(fullPath: string, name: string, type: string, size: number): UploadBody {
+  return {
+    name,
+    type,
+    size,
+    read: async (start, end) => {
+      const handle = await fs.open(fullPath, 'r');
+      try {
+        const bytes = new Uint8Array(end - start);
+        let offset = 0;
+        while (offset < bytes.length) {
+          const { bytesRead } = await handle.read(bytes, offset, bytes.length - offset, start + offset);
+          if (bytesRead === 0) throw new Error(`Unexpected end of file: ${fullPath}`);
+          offset += bytesRead;
+        }
+        return bytes;
+      } finally {
+        await handle.close();
+      }
+    },
+  };
+}
+
+/**
+ * Copy a Blob to disk a part at a time.
+ */
+export async function writeBlobToDisk(file: Blob, fullPath: string): Promise<void> {
+  const handle = await fs.open(fullPath, 'w');
+  try {
+    for (let start = 0; start < file.size; start += MIN_PART_SIZE) {
+      const chunk = new Uint8Array(await file.slice(start, start + MIN_PART_SIZE).arrayBuffer());
+      await handle.write(chunk, 0, chunk.length, start);
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * SHA-256 of the body, hashed incrementally so the whole file is never loaded at once.
+ */
+export async function hashBody(body: UploadBody): Promise<string> {
+  const hash = createHash('sha256');
+  for (let start = 0; start < body.size; start += MIN_PART_SIZE) {
+    hash.update(await body.read(start, Math.min(start + MIN_PART_SIZE, body.size)));
+  }
+  return hash.digest('hex');
+}
+
+function partSizeFor(size: number, requested = MIN_PART_SIZE): number {
+  // S3 accepts at most 10,000 parts of at least 5 MB each (the last one may be smaller)
+  return Math.max(requested, MIN_PART_SIZE, Math.ceil(size / MAX_PARTS));
+}
+
+function partLength(checkpoint: MultipartCheckpoint, partNumber: number): number {
+  const start = (partNumber - 1) * checkpoint.partSize;
+  return Math.max(0, Math.min(checkpoint.partSize, checkpoint.size - start));
+}
+
+async function withRetry<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      // A vanished upload will not come back, let the caller start over
+      if (error instanceof MultipartUploadGoneError) throw error;
+      if (attempt >= PART_ATTEMPTS || signal?.aborted) throw error;
+      const delay = BASE_PART_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
+      await new Promise(resolve => window.setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { renderPathTemplate, TemplateContext } from '../uploader/pathTemplate';
+
+/**
+ * Per profile headers stored with every uploaded object.
+ */
+export interface ObjectHeaderSettings {
+  // e.g. `public, max-age=31536000, immutable`
+  cacheControl?: string;
+  // `inline` or `attachment`, the original file name is added automatically
+  contentDisposition?: string;
+  // `name=value` pairs separated by `;`, values may use path template tokens
+  objectMetadata?: string;
+}
+
+export interface ObjectHeaders {
+  contentType: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+  // Names without the `x-amz-meta-` prefix
+  metadata: Record<string, string>;
+}
+
+/**
+ * Resolve the header settings for one upload.
+ */
+export function buildObjectHeaders(
+  settings: ObjectHeaderSettings,
+  contentType: string,
+  context: TemplateContext
+): ObjectHeaders {
+  const headers: ObjectHeaders = { contentType, metadata: {} };
+
+  const cacheControl = settings.cacheControl?.trim();
+  if (cacheControl) headers.cacheControl = cacheControl;
+
+  const disposition = settings.contentDisposition?.trim();
+  if (disposition) {
+    headers.contentDisposition = `${disposition}; ${dispositionFileName(context.fileName)}`;
+  }
+
+  for (const [name, valueTemplate] of parseObjectMetadata(settings.objectMetadata ?? '')) {
+    headers.metadata[name] = valueTemplate
+      ? headerValue(renderPathTemplate(valueTemplate, context))
+      : '';
+  }
+  return headers;
+}
+
+/**
+ * Headers for a raw S3 request (PUT object, create multipart upload).
+ */
+export function toHttpHeaders(headers: ObjectHeaders): Record<string, string> {
+  const result: Record<string, string> = { 'Content-Type': headers.contentType };
+  if (headers.cacheControl) result['Cache-Control'] = headers.cacheControl;
+  if (headers.contentDisposition) result['Content-Disposition'] = headers.contentDisposition;
+  Object.keys(headers.metadata).forEach(name => {
+    result[`x-amz-meta-${name}`] = headers.metadata[name];
+  });
+  return result;
+}
+
+/**
+ * Split `name=value; other=value` into pairs. Names are lower cased and limited to the
+ * characters S3 keeps in metadata names; entries without a name are dropped.
+ */
+export function parseObjectMetadata(spec: string): [string, string][] {
+  return spec
+    .split(';')
+    .map(entry => {
+      const separator = entry.indexOf('=');
+      if (separator === -1) return null;
+      const name = entry
+        .substring(0, separator)
+        .trim()
+        .toLowerCase()
+        .replace(/^x-amz-meta-/, '')
+        .replace(/[^a-z0-9-]/g, '-');
+      const value = entry.substring(separator + 1).trim();
+      return name ? ([name, value] as [string, string]) : null;
+    })
+    .filter((pair): pair is [string, string] => pair !== null);
+}
+
+// HTTP header values must be ASCII, so anything else (note names in Korean...) is percent-encoded
+function headerValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : encodeURIComponent(value);
+}
+
+function dispositionFileName(fileName: string): string {
+  const name = fileName.split('/').pop() ?? fileName;
+  const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(name).replace(
+    /['()*]/g,
+    c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,91 @@
+import { SigV4Signer } from '../uploader/sigV4';
+
+/**
+ * A stable pointer to an object in a private bucket, written into notes as
+ * `r2://bucket/key` (or `s3://bucket/key`) and swapped for a presigned URL when shown.
+ */
+export interface ObjectReference {
+  scheme: string;
+  bucket: string;
+  key: string;
+}
+
+export const OBJECT_REFERENCE_SCHEMES = ['r2', 's3'];
+
+// Stops at whitespace and the characters that end a Markdown link or an HTML attribute
+const REFERENCE_PATTERN = /\b(?:r2|s3):\/\/[^\s()<>"'[\]]+/g;
+
+export function objectReference(scheme: string, bucket: string, key: string): string {
+  // Keys are percent-encoded so references with spaces still work as Markdown link targets
+  return `${scheme}://${bucket}/${SigV4Signer.encodeKey(key.replace(/^\/+/, ''))}`;
+}
+
+export function parseObjectReference(url: string): ObjectReference | null {
+  const match = /^([a-z0-9]+):\/\/([^/]+)\/(.+)$/.exec(url.trim());
+  if (!match || !OBJECT_REFERENCE_SCHEMES.includes(match[1])) return null;
+  try {
+    return { scheme: match[1], bucket: match[2], key: decodeURIComponent(match[3]) };
+  } catch (_) {
+    return null;
+  }
+}
+
+export function isObjectReference(url: string): boolean {
+  return parseObjectReference(url) !== null;
+}
+
+/**
+ * Replace every reference in the text with what `resolve` returns for it.
+ * References that resolve to null are left as written.
+ */
+export async function replaceObjectReferences(
+  text: string,
+  resolve: (reference: string) => Promise<string | null>
+): Promise<{ text: string; replaced: number }> {
+  const references = [...new Set(text.match(REFERENCE_PATTERN) ?? [])];
+  const resolved = new Map<string, string>();
+  for (const reference of references) {
+    const url = await resolve(reference);
+    if (url) resolved.set(reference, url);
+  }
+
+  let replaced = 0;
+  const result = text.replace(REFERENCE_PATTERN, reference => {
+    const url = resolved.get(reference);
+    if (!url) return reference;
+    replaced++;
+    return url;
+  });
+  return { text: result, replaced };
+}
+
+interface CachedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+/**
+ * Presigned URLs by reference, so re-rendering a note does not sign every link again.
+ * A URL is handed out again only while at least half of its lifetime is left.
+ */
+export class PresignedUrlCache {
+  private readonly entries = new Map<string, CachedUrl>();
+
+  async get(
+    reference: string,
+    lifetimeSeconds: number,
+    presign: () => Promise<string>
+  ): Promise<string> {
+    const now = Date.now();
+    const cached = this.entries.get(reference);
+    if (cached && cached.expiresAt - now > (lifetimeSeconds * 1000) / 2) return cached.url;
+
+    const url = await presign();
+    this.entries.set(reference, { url, expiresAt: now + lifetimeSeconds * 1000 });
+    return url;
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,84 @@
+import { ObjectReference, parseObjectReference } from '../uploader/objectReference';
+import { UploadProfile } from '../uploader/profiles';
+import { getProvider } from '../uploader/providers';
+import { StoredObject } from '../uploader/uploader';
+
+export interface MediaReference {
+  notePath: string;
+  url: string;
+  key: string;
+}
+
+export interface BucketComparison {
+  // Objects under the prefix that no note links to
+  orphans: StoredObject[];
+  // Links to keys under the prefix that are not in the bucket
+  missing: MediaReference[];
+  // Links outside the listed prefix, which need to be checked one by one
+  unlisted: MediaReference[];
+}
+
+/**
+ * Map an embedded URL back to the object key of the profile,
+ * or null when the URL is neither served from the profile's custom domain or endpoint
+ * nor a private bucket reference to its bucket.
+ */
+export function keyFromUrl(url: string, profile: UploadProfile): string | null {
+  const reference = parseObjectReference(url);
+  if (reference) return referencesProfile(reference, profile) ? reference.key : null;
+  const target = stripProtocol(url.trim());
+
+  const bases: string[] = [];
+  if (profile.customDomainName) {
+    bases.push(`${stripProtocol(profile.customDomainName).replace(/\/+$/, '')}/`);
+  }
+  if (profile.endpoint && profile.bucketName) {
+    bases.push(`${stripProtocol(profile.endpoint).replace(/\/+$/, '')}/${profile.bucketName}/`);
+  }
+
+  for (const base of bases) {
+    if (!target.startsWith(base)) continue;
+    const key = target.substring(base.length).replace(/[?#].*$/, '');
+    try {
+      return decodeURIComponent(key) || null;
+    } catch (_) {
+      return key || null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a private bucket reference points into the profile's bucket. The scheme has to be
+ * the one the profile's provider writes, an R2 and an S3 bucket may share a name.
+ */
+export function referencesProfile(reference: ObjectReference, profile: UploadProfile): boolean {
+  return (
+    reference.bucket === profile.bucketName &&
+    getProvider(profile.provider).privateBucketScheme === reference.scheme
+  );
+}
+
+/**
+ * Diff the objects listed under `prefix` against the keys notes link to.
+ */
+export function compareBucket(
+  objects: StoredObject[],
+  references: MediaReference[],
+  prefix: string
+): BucketComparison {
+  const referencedKeys = new Set(references.map(reference => reference.key));
+  const storedKeys = new Set(objects.map(object => object.key));
+
+  return {
+    orphans: objects.filter(object => !referencedKeys.has(object.key)),
+    missing: references.filter(
+      reference => reference.key.startsWith(prefix) && !storedKeys.has(reference.key)
+    ),
+    unlisted: references.filter(reference => !reference.key.startsWith(prefix)),
+  };
+}
+
+function stripProtocol(url: string): string {
+  return url.replace(/^https?:\/\//, '');
+}
@@ -0,0 +1,215 @@
+/**
+ * The note an upload belongs to, for the note related path template tokens.
+ */
+export interface TemplateNote {
+  name: string;
+  // Vault path without the .md extension
+  path: string;
+  frontmatter: Record<string, unknown>;
+  vault: string;
+}
+
+export interface TemplateContext {
+  fileName: string;
+  hash?: string;
+  note?: TemplateNote;
+  date?: Date;
+}
+
+export type TemplateIssueReason = 'unknownToken' | 'badArgument' | 'unknownFilter' | 'unclosedBrace';
+
+export interface TemplateIssue {
+  token: string;
+  reason: TemplateIssueReason;
+}
+
+interface ParsedToken {
+  name: string;
+  arg?: string;
+  filters: string[];
+}
+
+const TOKEN_PATTERN = /\{([^{}]*)\}/g;
+const DEFAULT_RANDOM_LENGTH = 20;
+
+// Tokens that accept a length, e.g. {hash:8} or {random:6}
+const LENGTH_TOKENS = ['hash', 'sha256', 'random'];
+
+const FILTERS: Record<string, (value: string) => string> = {
+  lowercase: value => value.toLowerCase(),
+  uppercase: value => value.toUpperCase(),
+  slugify: value =>
+    value
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      // Recompose what NFKD split apart, such as Hangul syllables
+      .normalize('NFC')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, ''),
+};
+
+const TOKENS: Record<string, (context: TemplateContext, arg?: string) => string> = {
+  year: context => dateOf(context).getFullYear().toString(),
+  mon: context => pad(dateOf(context).getMonth() + 1),
+  day: context => pad(dateOf(context).getDate()),
+  hour: context => pad(dateOf(context).getHours()),
+  min: context => pad(dateOf(context).getMinutes()),
+  sec: context => pad(dateOf(context).getSeconds()),
+  timestamp: context => dateOf(context).getTime().toString(),
+  filename: context => uniqueFileName(context.fileName, dateOf(context)),
+  basename: context => context.fileName.replace(/\.[^/.]+$/, ''),
+  ext: context => (context.fileName.includes('.') ? context.fileName.split('.').pop() ?? '' : ''),
+  hash: (context, arg) => truncate(context.hash ?? '', arg),
+  sha256: (context, arg) => truncate(context.hash ?? '', arg),
+  random: (_context, arg) => randomString(arg ? parseInt(arg, 10) : DEFAULT_RANDOM_LENGTH),
+  uuid: () => crypto.randomUUID(),
+  notename: context => context.note?.name ?? '',
+  notepath: context => context.note?.path ?? '',
+  vault: context => context.note?.vault ?? '',
+};
+
+/**
+ * Expand every `{token[:arg][|filter...]}` of the template.
+ * Unknown tokens are kept as written so a typo shows up in the key instead of failing the upload.
+ */
+export function renderPathTemplate(template: string, context: TemplateContext): string {
+  if (!template || template.trim().length === 0) {
+    return uniqueFileName(context.fileName, dateOf(context));
+  }
+
+  return (
+    template
+      .replace(TOKEN_PATTERN, (match, inner: string) => {
+        const token = parseToken(inner);
+        const value = tokenValue(token, context);
+        if (value === null) return match;
+        return token.filters.reduce(
+          (result, filter) => (hasOwn(FILTERS, filter) ? FILTERS[filter](result) : result),
+          value
+        );
+      })
+      // An empty token (e.g. missing frontmatter) must not leave an empty folder behind
+      .replace(/\/{2,}/g, '/')
+  );
+}
+
+/**
+ * Problems with the template, one per offending token.
+ */
+export function validatePathTemplate(template: string): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+
+  const withoutTokens = (template ?? '').replace(TOKEN_PATTERN, (match, inner: string) => {
+    const token = parseToken(inner);
+    if (!isKnownToken(token.name)) {
+      issues.push({ token: match, reason: 'unknownToken' });
+    } else if (token.arg !== undefined && !validArgument(token)) {
+      issues.push({ token: match, reason: 'badArgument' });
+    } else if (token.filters.some(filter => !hasOwn(FILTERS, filter))) {
+      issues.push({ token: match, reason: 'unknownFilter' });
+    }
+    return '';
+  });
+
+  if (/[{}]/.test(withoutTokens)) {
+    issues.push({ token: withoutTokens.match(/[{}]/)?.[0] ?? '{', reason: 'unclosedBrace' });
+  }
+  return issues;
+}
+
+/**
+ * Whether the template uses a content hash token, so callers only hash when needed.
+ */
+export function templateNeedsHash(template: string): boolean {
+  let needsHash = false;
+  (template ?? '').replace(TOKEN_PATTERN, (match, inner: string) => {
+    const { name } = parseToken(inner);
+    if (name === 'hash' || name === 'sha256') needsHash = true;
+    return match;
+  });
+  return needsHash;
+}
+
+export const TEMPLATE_TOKENS = [...Object.keys(TOKENS), 'frontmatter.<key>'];
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+function parseToken(inner: string): ParsedToken {
+  const [head, ...filters] = inner.split('|').map(part => part.trim());
+  const separator = head.indexOf(':');
+  return separator === -1
+    ? { name: head, filters }
+    : { name: head.substring(0, separator), arg: head.substring(separator + 1), filters };
+}
+
+function tokenValue(token: ParsedToken, context: TemplateContext): string | null {
+  if (token.name.startsWith('frontmatter.')) {
+    const value = context.note?.frontmatter[token.name.substring('frontmatter.'.length)];
+    if (value === undefined || value === null) return '';
+    return Array.isArray(value) ? value.join(',') : String(value);
+  }
+  return hasOwn(TOKENS, token.name) ? TOKENS[token.name](context, token.arg) : null;
+}
+
+function isKnownToken(name: string): boolean {
+  return hasOwn(TOKENS, name) || /^frontmatter\.[^.\s]+/.test(name);
+}
+
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+function validArgument(token: ParsedToken): boolean {
+  return LENGTH_TOKENS.includes(token.name) && /^[1-9]\d*$/.test(token.arg ?? '');
+}
+
+function dateOf(context: TemplateContext): Date {
+  return context.date ?? new Date();
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+function truncate(value: string, arg?: string): string {
+  const length = arg ? parseInt(arg, 10) : NaN;
+  return isNaN(length) ? value : value.substring(0, length);
+}
+
+/**
+ * Name similar to Obsidian's local paste behavior, with a timestamp so uploads do not collide.
+ */
+function uniqueFileName(originalName: string, now: Date): string {
+  const timestamp =
+    now.getFullYear().toString() +
+    (now.getMonth() + 1).toString().padStart(2, '0') +
+    now.getDate().toString().padStart(2, '0') +
+    now.getHours().toString().padStart(2, '0') +
+    now.getMinutes().toString().padStart(2, '0') +
+    now.getSeconds().toString().padStart(2, '0') +
+    now.getMilliseconds().toString().padStart(3, '0');
+
+  // Extract file extension
+  const extension = originalName.split('.').pop() || 'png';
+
+  // If the original name is generic (like 'image'), use timestamp-based name
+  if (originalName.toLowerCase().includes('image') || originalName === 'blob') {
+    return `Pasted image ${timestamp}.${extension}`;
+  }
+
+  // For other cases, keep original name but add timestamp if needed
+  const nameWithoutExt = originalName.replace(/\.[^/.]+$/, '');
+  return `${nameWithoutExt} ${timestamp}.${extension}`;
+}
+
+function randomString(length: number): string {
+  const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let result = '';
+
+  for (let i = 0; i < length; i++) {
+    const randomIndex = Math.floor(Math.random() * characters.length);
+    result += characters.charAt(randomIndex);
+  }
+
+  return result;
+}
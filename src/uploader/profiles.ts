@@ -0,0 +1,125 @@
+import { ProviderId, ProviderSettings } from '../uploader/providers';
+import { DEFAULT_EMBED_TEMPLATE, EmbedStyle } from '../uploader/embedStyle';
+
+export interface UploadProfile extends ProviderSettings {
+  id: string;
+  name: string;
+  provider: ProviderId;
+  // How uploaded images are written into notes
+  embedStyle: EmbedStyle;
+  // Used when embedStyle is `custom`
+  embedTemplate: string;
+}
+
+export type RoutingRuleType = 'path' | 'frontmatter' | 'tag';
+
+/**
+ * Sends uploads from matching notes to a profile.
+ * - path: glob matched against the note path, e.g. `Blog/**`
+ * - frontmatter: `key` (present and not empty) or `key=value`
+ * - tag: `#tag` or `tag`, nested tags like `#tag/child` match too
+ */
+export interface RoutingRule {
+  type: RoutingRuleType;
+  pattern: string;
+  profileId: string;
+}
+
+export interface NoteContext {
+  path: string;
+  frontmatter?: Record<string, any>;
+  tags: string[];
+}
+
+export const DEFAULT_PROFILE: Omit<UploadProfile, 'id' | 'name'> = {
+  provider: 'r2-sdk',
+  accessKeyId: '',
+  secretAccessKey: '',
+  endpoint: '',
+  bucketName: '',
+  region: '',
+  imgurClientId: '',
+  targetPath: '/{year}/{mon}/{day}/{filename}',
+  customDomainName: '',
+  cacheControl: '',
+  contentDisposition: '',
+  objectMetadata: '',
+  privateBucket: false,
+  embedStyle: 'markdown',
+  embedTemplate: DEFAULT_EMBED_TEMPLATE,
+};
+
+/**
+ * Return the profile of the first rule matching the note, or the default profile.
+ * Rules pointing at a profile that no longer exists are skipped.
+ */
+export function resolveProfile(
+  profiles: UploadProfile[],
+  rules: RoutingRule[],
+  defaultProfileId: string,
+  note: NoteContext | null
+): UploadProfile {
+  if (note) {
+    for (const rule of rules) {
+      if (!rule.pattern.trim() || !matchesRule(rule, note)) continue;
+      const profile = profiles.find(p => p.id === rule.profileId);
+      if (profile) return profile;
+    }
+  }
+  return profiles.find(p => p.id === defaultProfileId) ?? profiles[0];
+}
+
+export function matchesRule(rule: RoutingRule, note: NoteContext): boolean {
+  const pattern = rule.pattern.trim();
+  switch (rule.type) {
+    case 'path':
+      return globToRegExp(pattern.replace(/^\/+/, '')).test(note.path);
+    case 'frontmatter': {
+      const separator = pattern.indexOf('=');
+      const key = (separator < 0 ? pattern : pattern.slice(0, separator)).trim();
+      const value = note.frontmatter?.[key];
+      if (value === undefined || value === null || value === '' || value === false) return false;
+      if (separator < 0) return true;
+      const expected = pattern.slice(separator + 1).trim();
+      const values = Array.isArray(value) ? value : [value];
+      return values.some(v => String(v) === expected);
+    }
+    case 'tag': {
+      const tag = pattern.replace(/^#/, '').toLowerCase();
+      return note.tags.some(t => {
+        const normalized = t.replace(/^#/, '').toLowerCase();
+        return normalized === tag || normalized.startsWith(`${tag}/`);
+      });
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Convert a glob to a RegExp. Supports `**` (any depth), `*` (within a folder) and `?`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (c === '?') {
+      source += '[^/]';
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,249 @@
+import { Uploader } from '../uploader/uploader';
+import { R2Uploader } from '../uploader/r2Uploader';
+import { DirectR2Uploader } from '../uploader/directR2Uploader';
+import { DirectS3Uploader } from '../uploader/directS3Uploader';
+import { ImgurUploader } from '../uploader/imgurUploader';
+
+export type ProviderId = 'r2-sdk' | 'r2-direct' | 's3' | 'imgur';
+
+/**
+ * Every credential or location value a provider may ask for.
+ */
+export interface ProviderSettings {
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint: string;
+  bucketName: string;
+  region: string;
+  imgurClientId: string;
+  targetPath: string;
+  customDomainName: string;
+  cacheControl: string;
+  contentDisposition: string;
+  objectMetadata: string;
+  // Notes get `r2://bucket/key` references that are presigned when shown
+  privateBucket: boolean;
+}
+
+// The settings entered in a text field
+export type ProviderTextSetting = {
+  [K in keyof ProviderSettings]: ProviderSettings[K] extends string ? K : never;
+}[keyof ProviderSettings];
+
+export interface ProviderField {
+  key: ProviderTextSetting;
+  // Translation keys, resolved by the settings tab
+  name: string;
+  desc: string;
+  placeholder: string;
+  required?: boolean;
+  secret?: boolean;
+}
+
+export interface UploaderProvider {
+  id: ProviderId;
+  name: string;
+  fields: ProviderField[];
+  // Scheme of the `scheme://bucket/key` references written for a private bucket,
+  // unset when the uploader cannot presign links
+  privateBucketScheme?: 'r2' | 's3';
+  create(settings: ProviderSettings): Uploader;
+}
+
+// Stored with every object, shared by the S3 compatible providers
+const headerFields: ProviderField[] = [
+  {
+    key: 'cacheControl',
+    name: 'cacheControl',
+    desc: 'cacheControlDesc',
+    placeholder: 'public, max-age=31536000, immutable',
+  },
+  {
+    key: 'contentDisposition',
+    name: 'contentDisposition',
+    desc: 'contentDispositionDesc',
+    placeholder: 'inline',
+  },
+  {
+    key: 'objectMetadata',
+    name: 'objectMetadata',
+    desc: 'objectMetadataDesc',
+    placeholder: 'source-note={notepath}; vault={vault}; original-filename={basename}.{ext}',
+  },
+];
+
+const r2Fields: ProviderField[] = [
+  {
+    key: 'accessKeyId',
+    name: 'cloudflareR2AccessKeyID',
+    desc: 'cloudflareR2AccessKeyIDDesc',
+    placeholder: 'Enter your access key ID',
+    required: true,
+  },
+  {
+    key: 'secretAccessKey',
+    name: 'cloudflareR2SecretAccessKey',
+    desc: 'cloudflareR2SecretAccessKeyDesc',
+    placeholder: 'Enter your secret access key',
+    required: true,
+    secret: true,
+  },
+  {
+    key: 'endpoint',
+    name: 'cloudflareR2Endpoint',
+    desc: 'cloudflareR2EndpointDesc',
+    placeholder: 'Enter your R2 endpoint',
+    required: true,
+  },
+  {
+    key: 'bucketName',
+    name: 'cloudflareR2BucketName',
+    desc: 'cloudflareR2BucketNameDesc',
+    placeholder: 'Enter your bucket name',
+    required: true,
+  },
+  { key: 'targetPath', name: 'targetPath', desc: 'targetPathDesc', placeholder: 'Enter path' },
+  {
+    key: 'customDomainName',
+    name: 'r2devUrlCustomDomain',
+    desc: 'r2devUrlCustomDomainDesc',
+    placeholder: 'Enter domain name',
+  },
+  ...headerFields,
+];
+
+const s3Fields: ProviderField[] = [
+  {
+    key: 'accessKeyId',
+    name: 's3AccessKeyID',
+    desc: 's3AccessKeyIDDesc',
+    placeholder: 'Enter your access key ID',
+    required: true,
+  },
+  {
+    key: 'secretAccessKey',
+    name: 's3SecretAccessKey',
+    desc: 's3SecretAccessKeyDesc',
+    placeholder: 'Enter your secret access key',
+    required: true,
+    secret: true,
+  },
+  {
+    key: 'endpoint',
+    name: 's3Endpoint',
+    desc: 's3EndpointDesc',
+    placeholder: 'https://s3.us-east-1.amazonaws.com',
+    required: true,
+  },
+  { key: 'region', name: 's3Region', desc: 's3RegionDesc', placeholder: 'us-east-1' },
+  {
+    key: 'bucketName',
+    name: 's3BucketName',
+    desc: 's3BucketNameDesc',
+    placeholder: 'Enter your bucket name',
+    required: true,
+  },
+  { key: 'targetPath', name: 'targetPath', desc: 'targetPathDesc', placeholder: 'Enter path' },
+  {
+    key: 'customDomainName',
+    name: 'customDomain',
+    desc: 'customDomainDesc',
+    placeholder: 'Enter domain name',
+  },
+  ...headerFields,
+];
+
+export const UPLOADER_PROVIDERS: UploaderProvider[] = [
+  {
+    id: 'r2-sdk',
+    name: 'Cloudflare R2 (aws-sdk)',
+    fields: r2Fields,
+    privateBucketScheme: 'r2',
+    create: settings =>
+      new R2Uploader({
+        accessKeyId: settings.accessKeyId,
+        secretAccessKey: settings.secretAccessKey,
+        endpoint: settings.endpoint,
+        bucketName: settings.bucketName,
+        path: settings.targetPath,
+        customDomainName: settings.customDomainName,
+        cacheControl: settings.cacheControl,
+        contentDisposition: settings.contentDisposition,
+        objectMetadata: settings.objectMetadata,
+        privateBucket: settings.privateBucket,
+      }),
+  },
+  {
+    id: 'r2-direct',
+    name: 'Cloudflare R2 (direct)',
+    fields: r2Fields,
+    privateBucketScheme: 'r2',
+    create: settings =>
+      new DirectR2Uploader({
+        accessKeyId: settings.accessKeyId,
+        secretAccessKey: settings.secretAccessKey,
+        endpoint: settings.endpoint,
+        bucketName: settings.bucketName,
+        path: settings.targetPath,
+        customDomainName: settings.customDomainName,
+        cacheControl: settings.cacheControl,
+        contentDisposition: settings.contentDisposition,
+        objectMetadata: settings.objectMetadata,
+        privateBucket: settings.privateBucket,
+      }),
+  },
+  {
+    id: 's3',
+    name: 'S3 compatible (AWS S3, MinIO...)',
+    fields: s3Fields,
+    privateBucketScheme: 's3',
+    create: settings =>
+      new DirectS3Uploader({
+        accessKeyId: settings.accessKeyId,
+        secretAccessKey: settings.secretAccessKey,
+        endpoint: settings.endpoint,
+        bucketName: settings.bucketName,
+        region: settings.region,
+        path: settings.targetPath,
+        customDomainName: settings.customDomainName,
+        cacheControl: settings.cacheControl,
+        contentDisposition: settings.contentDisposition,
+        objectMetadata: settings.objectMetadata,
+        privateBucket: settings.privateBucket,
+      }),
+  },
+  {
+    id: 'imgur',
+    name: 'Imgur',
+    fields: [
+      {
+        key: 'imgurClientId',
+        name: 'imgurClientId',
+        desc: 'imgurClientIdDesc',
+        placeholder: 'Enter your client ID',
+        required: true,
+      },
+    ],
+    create: settings =>
+      new ImgurUploader({
+        clientId: settings.imgurClientId,
+        path: settings.targetPath,
+        customDomainName: settings.customDomainName,
+      }),
+  },
+];
+
+export function getProvider(id: ProviderId): UploaderProvider {
+  return UPLOADER_PROVIDERS.find(provider => provider.id === id) ?? UPLOADER_PROVIDERS[0];
+}
+
+/**
+ * Build the uploader for the given provider, or null while required fields are still empty.
+ */
+export function createUploader(id: ProviderId, settings: ProviderSettings): Uploader | null {
+  const provider = getProvider(id);
+  const missing = provider.fields.some(
+    field => field.required && !(settings[field.key] ?? '').trim()
+  );
+  return missing ? null : provider.create(settings);
+}
@@ -0,0 +1,76 @@
+export interface PublishJournalEntry {
+  notePath: string;
+  // The local embed as it was written in the note
+  originalText: string;
+  // The embed that replaced it
+  newText: string;
+  url: string;
+  key: string;
+  profileId: string;
+  // False when the upload reused an object that existed before the run
+  created: boolean;
+  // Responsive widths stored next to `key`, deleted along with it
+  variantKeys?: string[];
+}
+
+export interface CleanedUpAttachment {
+  // Where the attachment was before the publish
+  path: string;
+  // Set when it was moved to the archive folder, trashed attachments cannot be moved back
+  archivedPath?: string;
+}
+
+export interface PublishJournal {
+  id: string;
+  startedAt: number;
+  scope: string;
+  entries: PublishJournalEntry[];
+  cleanedUp?: CleanedUpAttachment[];
+}
+
+const MAX_JOURNALS = 10;
+
+/**
+ * The most recent publish runs, newest last, so a run can be reverted.
+ * Operates on the plain array kept in plugin data, mutating it in place.
+ */
+export class PublishHistory {
+  private readonly journals: PublishJournal[];
+
+  constructor(journals: PublishJournal[]) {
+    this.journals = journals;
+  }
+
+  get last(): PublishJournal | null {
+    return this.journals[this.journals.length - 1] ?? null;
+  }
+
+  add(journal: PublishJournal) {
+    this.journals.push(journal);
+    if (this.journals.length > MAX_JOURNALS) {
+      this.journals.splice(0, this.journals.length - MAX_JOURNALS);
+    }
+  }
+
+  remove(journal: PublishJournal) {
+    const index = this.journals.indexOf(journal);
+    if (index !== -1) this.journals.splice(index, 1);
+  }
+
+  /**
+   * Keep entries pointing at their note when it is renamed or moved.
+   * Returns whether anything changed.
+   */
+  renameNote(oldPath: string, newPath: string): boolean {
+    let changed = false;
+    for (const journal of this.journals) {
+      for (const entry of journal.entries) {
+        if (entry.notePath === oldPath) {
+          entry.notePath = newPath;
+          changed = true;
+        }
+      }
+    }
+    return changed;
+  }
+}
@@ -1,20 +1,39 @@
 import { UploaderUtils } from '../uploader/uploaderUtils';
+import { chooseKey, putWithPolicy } from '../uploader/keyCollision';
+import { ListObjectsResult, Uploader, UploadOptions, UploadResult } from '../uploader/uploader';
+import {
+  CompletedPart,
+  hashBody,
+  MultipartBackend,
+  MultipartCheckpoint,
+  MultipartOptions,
+  MultipartUploadGoneError,
+  runMultipartUpload,
+  UploadBody,
+} from '../uploader/multipartUpload';
+import { buildObjectHeaders, ObjectHeaders, ObjectHeaderSettings } from '../uploader/objectHeaders';
+import { mimeTypeOf } from '../uploader/mimeTypes';
+import { objectReference } from '../uploader/objectReference';
 import * as AWS from 'aws-sdk';
 
-export interface R2Setting {
+export interface R2Setting extends ObjectHeaderSettings {
   accessKeyId: string;
   secretAccessKey: string;
   endpoint: string;
   bucketName: string;
   path: string;
   customDomainName: string;
+  // Embed `r2://bucket/key` references instead of public URLs
+  privateBucket?: boolean;
 }
 
-export class R2Uploader {
+export class R2Uploader implements Uploader {
   private readonly r2: AWS.S3;
   private readonly bucket: string;
   private readonly pathTemplate: string;
   private readonly customDomainName: string;
+  private readonly headerSettings: ObjectHeaderSettings;
+  private readonly privateBucket: boolean;
 
   constructor(setting: R2Setting) {
     this.r2 = new AWS.S3({
@@ -28,33 +47,213 @@ export class R2Uploader {
     this.bucket = setting.bucketName;
     this.pathTemplate = setting.path;
     this.customDomainName = setting.customDomainName;
+    this.headerSettings = {
+      cacheControl: setting.cacheControl,
+      contentDisposition: setting.contentDisposition,
+      objectMetadata: setting.objectMetadata,
+    };
+    this.privateBucket = setting.privateBucket ?? false;
   }
 
-  async upload(image: File, fullPath: string): Promise<string> {
+  async upload(image: File, options: UploadOptions = {}): Promise<UploadResult> {
     const arrayBuffer = await this.readFileAsArrayBuffer(image);
     const uint8Array = new Uint8Array(arrayBuffer);
-    let path = UploaderUtils.generateName(this.pathTemplate, image.name);
+    const hash = UploaderUtils.needsHash(this.pathTemplate)
+      ? await UploaderUtils.sha256Hex(uint8Array)
+      : '';
+    let path =
+      options.key ?? UploaderUtils.generateName(this.pathTemplate, image.name, hash, options.note);
     path = path.replace(/^\/+/, ''); // remove the /
+    const objectHeaders = buildObjectHeaders(this.headerSettings, mimeTypeOf(image), {
+      fileName: image.name,
+      hash,
+      note: options.note,
+    });
 
-    const params = {
-      Bucket: this.bucket,
-      Key: path,
-      Body: uint8Array,
-      ContentType: `image/${image.name.split('.').pop()}`,
+    // aws-sdk v2 cannot send If-None-Match on uploads, so the HEAD check is all we have
+    const { key, existed } = await putWithPolicy(
+      path,
+      options.overwrite ?? 'overwrite',
+      candidate => this.exists(candidate),
+      candidate =>
+        new Promise((resolve, reject) => {
+          const params = {
+            ...R2Uploader.objectParams(objectHeaders),
+            Bucket: this.bucket,
+            Key: candidate,
+            Body: uint8Array,
+          };
+          this.r2.upload(params, (err: any) => (err ? reject(err) : resolve(true)));
+        })
+    );
+    return { url: this.publicUrl(key), key, existed };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.r2.deleteObject({ Bucket: this.bucket, Key: key }).promise();
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.r2.headObject({ Bucket: this.bucket, Key: key }).promise();
+      return true;
+    } catch (err: any) {
+      if (err?.statusCode === 404 || err?.code === 'NotFound') return false;
+      throw err;
+    }
+  }
+
+  async list(prefix: string, continuationToken?: string): Promise<ListObjectsResult> {
+    const data = await this.r2
+      .listObjectsV2({
+        Bucket: this.bucket,
+        Prefix: prefix ? prefix.replace(/^\/+/, '') : undefined,
+        ContinuationToken: continuationToken,
+        MaxKeys: 1000,
+      })
+      .promise();
+
+    return {
+      objects: (data.Contents ?? []).map(object => ({
+        key: object.Key ?? '',
+        size: object.Size ?? 0,
+        lastModified: object.LastModified ?? null,
+      })),
+      continuationToken: data.IsTruncated ? data.NextContinuationToken : undefined,
     };
+  }
 
-    return new Promise((resolve, reject) => {
-      this.r2.upload(params, (err: any, data: any) => {
-        if (err) {
-          reject(err);
-        } else {
-          const dst = data.Location.split(`/${this.bucket}/`).pop();
-          resolve(UploaderUtils.customizeDomainName(dst, this.customDomainName));
-        }
-      });
+  publicUrl(key: string): string {
+    if (this.privateBucket) return objectReference('r2', this.bucket, key);
+    return UploaderUtils.customizeDomainName(key, this.customDomainName);
+  }
+
+  presignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return this.r2.getSignedUrlPromise('getObject', {
+      Bucket: this.bucket,
+      Key: key,
+      // S3 refuses presigned URLs valid for more than 7 days
+      Expires: Math.max(1, Math.min(Math.floor(expiresInSeconds), 604800)),
     });
   }
 
+  async uploadMultipart(body: UploadBody, options: MultipartOptions = {}): Promise<UploadResult> {
+    let key = options.checkpoint?.key ?? '';
+    const objectHeaders = buildObjectHeaders(this.headerSettings, mimeTypeOf(body), {
+      fileName: body.name,
+      hash: options.hash,
+      note: options.note,
+    });
+    if (!key) {
+      const hash = UploaderUtils.needsHash(this.pathTemplate)
+        ? options.hash ?? (await hashBody(body))
+        : '';
+      key = UploaderUtils.generateName(this.pathTemplate, body.name, hash, options.note).replace(
+        /^\/+/,
+        ''
+      );
+      const choice = await chooseKey(key, options.overwrite ?? 'overwrite', candidate =>
+        this.exists(candidate)
+      );
+      if (choice.existed) return { url: this.publicUrl(choice.key), key: choice.key, existed: true };
+      key = choice.key;
+    }
+    key = await runMultipartUpload(this.multipartBackend(objectHeaders), body, key, options);
+    return { url: this.publicUrl(key), key };
+  }
+
+  async abortMultipart(checkpoint: MultipartCheckpoint): Promise<void> {
+    await this.multipartBackend().abort(checkpoint.key, checkpoint.uploadId);
+  }
+
+  private multipartBackend(
+    objectHeaders: ObjectHeaders = { contentType: 'application/octet-stream', metadata: {} }
+  ): MultipartBackend {
+    const gone = (err: any, uploadId: string) =>
+      err?.code === 'NoSuchUpload' ? new MultipartUploadGoneError(uploadId) : err;
+
+    return {
+      create: async key => {
+        const data = await this.r2
+          .createMultipartUpload({
+            ...R2Uploader.objectParams(objectHeaders),
+            Bucket: this.bucket,
+            Key: key,
+          })
+          .promise();
+        if (!data.UploadId) throw new Error('Starting multipart upload failed: no upload id');
+        return data.UploadId;
+      },
+      uploadPart: async (key, uploadId, partNumber, bytes) => {
+        try {
+          const data = await this.r2
+            .uploadPart({
+              Bucket: this.bucket,
+              Key: key,
+              UploadId: uploadId,
+              PartNumber: partNumber,
+              Body: bytes,
+            })
+            .promise();
+          return data.ETag ?? '';
+        } catch (err) {
+          throw gone(err, uploadId);
+        }
+      },
+      listParts: async (key, uploadId) => {
+        const parts: CompletedPart[] = [];
+        let marker: number | undefined;
+        try {
+          for (;;) {
+            const data = await this.r2
+              .listParts({ Bucket: this.bucket, Key: key, UploadId: uploadId, PartNumberMarker: marker })
+              .promise();
+            (data.Parts ?? []).forEach(part =>
+              parts.push({ partNumber: part.PartNumber ?? 0, etag: part.ETag ?? '' })
+            );
+            marker = data.NextPartNumberMarker;
+            if (!data.IsTruncated || marker === undefined) break;
+          }
+        } catch (err) {
+          throw gone(err, uploadId);
+        }
+        return parts;
+      },
+      complete: async (key, uploadId, parts) => {
+        try {
+          await this.r2
+            .completeMultipartUpload({
+              Bucket: this.bucket,
+              Key: key,
+              UploadId: uploadId,
+              MultipartUpload: {
+                Parts: parts.map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+              },
+            })
+            .promise();
+        } catch (err) {
+          throw gone(err, uploadId);
+        }
+      },
+      abort: async (key, uploadId) => {
+        try {
+          await this.r2.abortMultipartUpload({ Bucket: this.bucket, Key: key, UploadId: uploadId }).promise();
+        } catch (err: any) {
+          if (err?.code !== 'NoSuchUpload') throw err;
+        }
+      },
+    };
+  }
+
+  private static objectParams(headers: ObjectHeaders) {
+    return {
+      ContentType: headers.contentType,
+      CacheControl: headers.cacheControl,
+      ContentDisposition: headers.contentDisposition,
+      Metadata: headers.metadata,
+    };
+  }
+
   private readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -0,0 +1,72 @@
+import { Uploader, UploadOptions, UploadResult } from '../uploader/uploader';
+
+/**
+ * How the stored widths are written into the note:
+ * - srcset: one `<img srcset sizes>` in the format of the upload
+ * - picture: a `<picture>` with a WebP `<source>` and an `<img>` fallback
+ */
+export type ResponsiveMarkup = 'srcset' | 'picture';
+
+// A resized copy rendered before upload
+export interface ImageVariant {
+  file: File;
+  width: number;
+}
+
+// A stored rendition of an image, the original included
+export interface UploadedVariant {
+  url: string;
+  key: string;
+  width: number;
+  // MIME type, `<picture>` groups sources by it
+  type: string;
+  // See `UploadResult.deleteToken`
+  deleteToken?: string;
+}
+
+/**
+ * `480, 960, 1920` as ascending unique widths, ignoring anything that is not a positive number.
+ */
+export function parseWidths(value: string): number[] {
+  const widths = (value ?? '')
+    .split(/[\s,]+/)
+    .map(item => parseInt(item, 10))
+    .filter(width => !isNaN(width) && width > 0);
+  return [...new Set(widths)].sort((a, b) => a - b);
+}
+
+/**
+ * The key of a variant next to the original: `2025/photo.png` becomes `2025/photo@960w.webp`
+ * for a 960 px WebP, so variants follow wherever the path template put the original.
+ */
+export function variantKey(key: string, width: number, fileName: string): string {
+  const extension = fileName.includes('.') ? fileName.split('.').pop() : '';
+  const slash = key.lastIndexOf('/');
+  const folder = key.substring(0, slash + 1);
+  const name = key.substring(slash + 1);
+  const baseName = name.includes('.') ? name.replace(/\.[^.]+$/, '') : name;
+  return `${folder}${baseName}@${width}w${extension ? `.${extension}` : ''}`;
+}
+
+/**
+ * Upload the variants of an image that was just stored as `original`, one at a time.
+ * Variants always overwrite, their keys are owned by the original's key.
+ * Backends that pick their own keys (Imgur) ignore the requested one, their URLs still work.
+ */
+export async function uploadVariants(
+  uploader: Uploader,
+  original: UploadResult,
+  variants: ImageVariant[],
+  options: UploadOptions = {}
+): Promise<UploadedVariant[]> {
+  const uploaded: UploadedVariant[] = [];
+  for (const { file, width } of variants) {
+    const { url, key, deleteToken } = await uploader.upload(file, {
+      ...options,
+      key: variantKey(original.key, width, file.name),
+      overwrite: 'overwrite',
+    });
+    uploaded.push({ url, key, width, type: file.type, deleteToken });
+  }
+  return uploaded;
+}
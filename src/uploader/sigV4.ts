@@ -0,0 +1,230 @@
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  service?: string;
+}
+
+export type SigV4Payload = ArrayBuffer | Uint8Array | string;
+
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const encoder = new TextEncoder();
+
+/**
+ * Minimal AWS Signature Version 4 signer built on WebCrypto.
+ * Works for any S3 compatible API (Cloudflare R2, AWS S3, MinIO...) without aws-sdk.
+ */
+export class SigV4Signer {
+  private readonly accessKeyId: string;
+  private readonly secretAccessKey: string;
+  private readonly region: string;
+  private readonly service: string;
+
+  constructor(credentials: SigV4Credentials) {
+    this.accessKeyId = credentials.accessKeyId;
+    this.secretAccessKey = credentials.secretAccessKey;
+    this.region = credentials.region || 'auto';
+    this.service = credentials.service || 's3';
+  }
+
+  /**
+   * Sign a request with an Authorization header.
+   * Returns the headers that must be sent along with the request.
+   */
+  async sign(
+    method: string,
+    url: string,
+    headers: Record<string, string> = {},
+    payload: SigV4Payload | typeof UNSIGNED_PAYLOAD = '',
+    date: Date = new Date()
+  ): Promise<Record<string, string>> {
+    const urlObj = new URL(url);
+    const { amzDate, shortDate } = SigV4Signer.formatDate(date);
+    const payloadHash =
+      payload === UNSIGNED_PAYLOAD ? UNSIGNED_PAYLOAD : await SigV4Signer.sha256Hex(payload);
+
+    const signedHeaders: Record<string, string> = {
+      ...SigV4Signer.lowerCaseKeys(headers),
+      host: urlObj.host,
+      'x-amz-date': amzDate,
+      'x-amz-content-sha256': payloadHash,
+    };
+
+    const { canonicalHeaders, signedHeaderNames } = SigV4Signer.canonicalHeaders(signedHeaders);
+    const canonicalRequest = [
+      method.toUpperCase(),
+      SigV4Signer.canonicalUri(urlObj.pathname),
+      SigV4Signer.canonicalQuery(urlObj.searchParams),
+      canonicalHeaders,
+      signedHeaderNames,
+      payloadHash,
+    ].join('\n');
+
+    const scope = this.credentialScope(shortDate);
+    const signature = await this.signature(canonicalRequest, amzDate, shortDate, scope);
+
+    // The browser sets Host itself and refuses it from scripts.
+    const { host: _host, ...result } = signedHeaders;
+    result['authorization'] =
+      `${ALGORITHM} Credential=${this.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaderNames}, Signature=${signature}`;
+    return result;
+  }
+
+  /**
+   * Create a presigned URL that can be used without any additional headers.
+   */
+  async presign(
+    method: string,
+    url: string,
+    expiresInSeconds = 900,
+    date: Date = new Date()
+  ): Promise<string> {
+    const urlObj = new URL(url);
+    const { amzDate, shortDate } = SigV4Signer.formatDate(date);
+    const scope = this.credentialScope(shortDate);
+
+    // S3 allows presigned URLs to be valid for at most 7 days.
+    const expires = Math.max(1, Math.min(Math.floor(expiresInSeconds), 604800));
+
+    urlObj.searchParams.set('X-Amz-Algorithm', ALGORITHM);
+    urlObj.searchParams.set('X-Amz-Credential', `${this.accessKeyId}/${scope}`);
+    urlObj.searchParams.set('X-Amz-Date', amzDate);
+    urlObj.searchParams.set('X-Amz-Expires', expires.toString());
+    urlObj.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+    const canonicalRequest = [
+      method.toUpperCase(),
+      SigV4Signer.canonicalUri(urlObj.pathname),
+      SigV4Signer.canonicalQuery(urlObj.searchParams),
+      `host:${urlObj.host}\n`,
+      'host',
+      UNSIGNED_PAYLOAD,
+    ].join('\n');
+
+    const signature = await this.signature(canonicalRequest, amzDate, shortDate, scope);
+    const query = SigV4Signer.canonicalQuery(urlObj.searchParams);
+    return `${urlObj.origin}${SigV4Signer.canonicalUri(urlObj.pathname)}?${query}&X-Amz-Signature=${signature}`;
+  }
+
+  /**
+   * Encode an object key so it can be appended to a path-style S3 URL.
+   */
+  static encodeKey(key: string): string {
+    return key
+      .split('/')
+      .map(segment => SigV4Signer.uriEncode(segment))
+      .join('/');
+  }
+
+  static async sha256Hex(data: SigV4Payload): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', SigV4Signer.toBytes(data));
+    return SigV4Signer.toHex(digest);
+  }
+
+  private credentialScope(shortDate: string): string {
+    return `${shortDate}/${this.region}/${this.service}/aws4_request`;
+  }
+
+  private async signature(
+    canonicalRequest: string,
+    amzDate: string,
+    shortDate: string,
+    scope: string
+  ): Promise<string> {
+    const stringToSign = [
+      ALGORITHM,
+      amzDate,
+      scope,
+      await SigV4Signer.sha256Hex(canonicalRequest),
+    ].join('\n');
+
+    const dateKey = await SigV4Signer.hmac(encoder.encode(`AWS4${this.secretAccessKey}`), shortDate);
+    const regionKey = await SigV4Signer.hmac(dateKey, this.region);
+    const serviceKey = await SigV4Signer.hmac(regionKey, this.service);
+    const signingKey = await SigV4Signer.hmac(serviceKey, 'aws4_request');
+    return SigV4Signer.toHex(await SigV4Signer.hmac(signingKey, stringToSign));
+  }
+
+  private static async hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+    const cryptoKey = await crypto.subtle.importKey(
+      'raw',
+      key,
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+  }
+
+  private static canonicalUri(pathname: string): string {
+    // URL.pathname is already percent-encoded; decode first so nothing is encoded twice
+    const segments = pathname.split('/').map(segment => {
+      let decoded = segment;
+      try {
+        decoded = decodeURIComponent(segment);
+      } catch (_) {
+        // keep the raw segment if it is not valid percent-encoding
+      }
+      return SigV4Signer.uriEncode(decoded);
+    });
+    const uri = segments.join('/');
+    return uri.startsWith('/') ? uri : `/${uri}`;
+  }
+
+  private static canonicalQuery(params: URLSearchParams): string {
+    const pairs: [string, string][] = [];
+    params.forEach((value, key) => {
+      pairs.push([SigV4Signer.uriEncode(key), SigV4Signer.uriEncode(value)]);
+    });
+    pairs.sort(([aKey, aValue], [bKey, bValue]) =>
+      aKey === bKey ? (aValue < bValue ? -1 : 1) : aKey < bKey ? -1 : 1
+    );
+    return pairs.map(([key, value]) => `${key}=${value}`).join('&');
+  }
+
+  private static canonicalHeaders(headers: Record<string, string>): {
+    canonicalHeaders: string;
+    signedHeaderNames: string;
+  } {
+    const names = Object.keys(headers).sort();
+    const canonicalHeaders = names
+      .map(name => `${name}:${headers[name].trim().replace(/\s+/g, ' ')}\n`)
+      .join('');
+    return { canonicalHeaders, signedHeaderNames: names.join(';') };
+  }
+
+  private static lowerCaseKeys(headers: Record<string, string>): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.keys(headers).forEach(key => {
+      result[key.toLowerCase()] = headers[key];
+    });
+    return result;
+  }
+
+  // RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+  private static uriEncode(value: string): string {
+    return encodeURIComponent(value).replace(
+      /[!'()*]/g,
+      c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+  }
+
+  private static formatDate(date: Date): { amzDate: string; shortDate: string } {
+    const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    return { amzDate, shortDate: amzDate.slice(0, 8) };
+  }
+
+  private static toBytes(data: SigV4Payload): Uint8Array {
+    if (typeof data === 'string') return encoder.encode(data);
+    return data instanceof Uint8Array ? data : new Uint8Array(data);
+  }
+
+  private static toHex(buffer: ArrayBuffer): string {
+    return Array.from(new Uint8Array(buffer))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
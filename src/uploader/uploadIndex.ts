@@ -0,0 +1,59 @@
+import { UploadedVariant } from '../uploader/responsiveImages';
+
+export interface UploadIndexEntry {
+  url: string;
+  key: string;
+  bucket: string;
+  uploadedAt: number;
+  // Responsive widths stored with it, so a reused upload keeps its srcset
+  variants?: UploadedVariant[];
+}
+
+/**
+ * Maps the SHA-256 of uploaded content to where it was stored, per profile,
+ * so the same bytes are never uploaded twice.
+ * Operates on the plain record kept in plugin data, mutating it in place.
+ */
+export class UploadIndex {
+  private readonly entries: Record<string, UploadIndexEntry>;
+
+  constructor(entries: Record<string, UploadIndexEntry>) {
+    this.entries = entries;
+  }
+
+  get size(): number {
+    return Object.keys(this.entries).length;
+  }
+
+  get(profileId: string, hash: string): UploadIndexEntry | null {
+    return this.entries[UploadIndex.entryKey(profileId, hash)] ?? null;
+  }
+
+  set(profileId: string, hash: string, entry: UploadIndexEntry) {
+    this.entries[UploadIndex.entryKey(profileId, hash)] = entry;
+  }
+
+  delete(profileId: string, hash: string) {
+    delete this.entries[UploadIndex.entryKey(profileId, hash)];
+  }
+
+  /**
+   * Forget every entry pointing at the object, e.g. after it was deleted from the bucket.
+   */
+  deleteObject(profileId: string, key: string) {
+    const prefix = `${profileId}:`;
+    Object.keys(this.entries).forEach(entryKey => {
+      if (entryKey.startsWith(prefix) && this.entries[entryKey].key === key) {
+        delete this.entries[entryKey];
+      }
+    });
+  }
+
+  clear() {
+    Object.keys(this.entries).forEach(key => delete this.entries[key]);
+  }
+
+  private static entryKey(profileId: string, hash: string): string {
+    return `${profileId}:${hash}`;
+  }
+}
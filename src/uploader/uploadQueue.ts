@@ -0,0 +1,160 @@
+import { MultipartCheckpoint } from '../uploader/multipartUpload';
+
+export interface UploadJob {
+  // Also the id of the `![Uploading file...id]()` placeholder in the note
+  id: string;
+  notePath: string;
+  fileName: string;
+  mimeType: string;
+  // Where the file bytes are staged until the upload succeeds
+  stagedPath: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  // Progress of a large file sent in parts, so a retry or restart resumes it
+  multipart?: MultipartCheckpoint;
+}
+
+export interface UploadQueueHandlers {
+  run(job: UploadJob): Promise<void>;
+  // Called once a job has used up all of its attempts
+  fail(job: UploadJob, error: Error): Promise<void>;
+  persist(): Promise<void>;
+}
+
+export interface UploadQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+}
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Durable upload queue. Jobs live in a plain array kept in plugin data, so uploads that were
+ * pending when Obsidian closed are picked up again on the next start.
+ * Failed jobs are retried with exponential backoff, and nothing runs while the device is offline.
+ */
+export class UploadQueue {
+  private readonly jobs: UploadJob[];
+  private readonly handlers: UploadQueueHandlers;
+  private readonly running = new Set<string>();
+  private options: UploadQueueOptions;
+  private timer: number | null = null;
+  private started = false;
+  private readonly onOnline = () => this.pump();
+
+  constructor(jobs: UploadJob[], handlers: UploadQueueHandlers, options: UploadQueueOptions) {
+    this.jobs = jobs;
+    this.handlers = handlers;
+    this.options = options;
+  }
+
+  get size(): number {
+    return this.jobs.length;
+  }
+
+  configure(options: UploadQueueOptions) {
+    this.options = options;
+    this.pump();
+  }
+
+  async add(job: Omit<UploadJob, 'attempts' | 'nextAttemptAt'>) {
+    this.jobs.push({ ...job, attempts: 0, nextAttemptAt: 0 });
+    await this.handlers.persist();
+    this.pump();
+  }
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+    window.addEventListener('online', this.onOnline);
+    this.pump();
+  }
+
+  stop() {
+    this.started = false;
+    window.removeEventListener('online', this.onOnline);
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Keep pending jobs pointing at their note when it is renamed or moved.
+   * Returns whether any job changed; the caller persists, so a rename is saved once.
+   */
+  renameNote(oldPath: string, newPath: string): boolean {
+    let changed = false;
+    for (const job of this.jobs) {
+      if (job.notePath === oldPath) {
+        job.notePath = newPath;
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  static retryDelay(attempts: number): number {
+    const delay = BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+    // Jitter so that jobs failing together do not retry in lockstep
+    return Math.min(delay, MAX_RETRY_DELAY_MS) * (0.8 + Math.random() * 0.4);
+  }
+
+  private pump() {
+    if (!this.started) return;
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // The 'online' listener resumes the queue
+    if (!navigator.onLine) return;
+
+    const now = Date.now();
+    const concurrency = Math.max(1, this.options.concurrency);
+    let nextWake = Infinity;
+
+    for (const job of this.jobs) {
+      if (this.running.has(job.id)) continue;
+      if (job.nextAttemptAt > now) {
+        nextWake = Math.min(nextWake, job.nextAttemptAt);
+        continue;
+      }
+      if (this.running.size >= concurrency) break;
+      void this.execute(job);
+    }
+
+    if (nextWake !== Infinity) {
+      this.timer = window.setTimeout(() => this.pump(), nextWake - now);
+    }
+  }
+
+  private async execute(job: UploadJob) {
+    this.running.add(job.id);
+    try {
+      await this.handlers.run(job);
+      this.remove(job);
+    } catch (error) {
+      job.attempts++;
+      job.lastError = error instanceof Error ? error.message : String(error);
+      if (job.attempts >= this.options.maxAttempts) {
+        this.remove(job);
+        await this.handlers
+          .fail(job, error instanceof Error ? error : new Error(job.lastError))
+          .catch(() => undefined);
+      } else {
+        job.nextAttemptAt = Date.now() + UploadQueue.retryDelay(job.attempts);
+      }
+    } finally {
+      this.running.delete(job.id);
+      await this.handlers.persist().catch(() => undefined);
+      this.pump();
+    }
+  }
+
+  private remove(job: UploadJob) {
+    const index = this.jobs.indexOf(job);
+    if (index !== -1) this.jobs.splice(index, 1);
+  }
+}
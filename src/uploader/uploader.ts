@@ -0,0 +1,57 @@
+import { MultipartCheckpoint, MultipartOptions, UploadBody } from '../uploader/multipartUpload';
+import { TemplateNote } from '../uploader/pathTemplate';
+import { OverwritePolicy } from '../uploader/keyCollision';
+import { UploadedVariant } from '../uploader/responsiveImages';
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date | null;
+}
+
+export interface UploadResult {
+  // Public URL to embed in notes
+  url: string;
+  // Object key inside the bucket
+  key: string;
+  // True when the overwrite policy reused an object already stored under the key
+  existed?: boolean;
+  // Every stored width of a responsive image, the original included
+  variants?: UploadedVariant[];
+  // What delete() needs besides the key, for backends that cannot delete by key (Imgur)
+  deleteToken?: string;
+}
+
+export interface UploadOptions {
+  // Feeds the note related tokens of the path template
+  note?: TemplateNote;
+  // What to do when the key is already taken, `overwrite` when unset
+  overwrite?: OverwritePolicy;
+  // Store under this key instead of rendering the path template, e.g. for responsive variants
+  key?: string;
+}
+
+export interface ListObjectsResult {
+  objects: StoredObject[];
+  // Pass back to list() to fetch the next page, undefined on the last page
+  continuationToken?: string;
+}
+
+/**
+ * Common contract every upload backend implements.
+ * Keys are object keys inside the bucket (no leading slash), never full URLs.
+ */
+export interface Uploader {
+  upload(file: File, options?: UploadOptions): Promise<UploadResult>;
+  delete(key: string, deleteToken?: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  list(prefix: string, continuationToken?: string): Promise<ListObjectsResult>;
+  // URL an object can be embedded with, the same one upload() returns for it.
+  // Private buckets return an `r2://bucket/key` reference instead, see objectReference.ts
+  publicUrl(key: string): string;
+  // Time limited GET URL, for buckets that are not publicly readable
+  presignedUrl?(key: string, expiresInSeconds: number): Promise<string>;
+  // Large files are sent in parts by backends that speak the S3 multipart API
+  uploadMultipart?(body: UploadBody, options?: MultipartOptions): Promise<UploadResult>;
+  abortMultipart?(checkpoint: MultipartCheckpoint): Promise<void>;
+}
@@ -1,60 +1,47 @@
 import * as path from 'path';
+import { renderPathTemplate, TemplateNote, templateNeedsHash } from '../uploader/pathTemplate';
+import { SigV4Signer } from '../uploader/sigV4';
 
 export class UploaderUtils {
-  static generateName(pathTmpl: string, imageName: string): string {
-    const date = new Date();
-    const year = date.getFullYear().toString();
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const day = date.getDate().toString().padStart(2, '0');
-    const random = this.generateRandomString(20);
-
-    // Generate unique filename similar to Obsidian's local paste behavior
-    const uniqueFileName = this.generateUniqueFileName(imageName);
-
-    return pathTmpl != undefined && pathTmpl.trim().length > 0
-      ? pathTmpl
-          .replace('{year}', year)
-          .replace('{mon}', month)
-          .replace('{day}', day)
-          .replace('{random}', random)
-          .replace('{filename}', uniqueFileName)
-      : uniqueFileName;
+  static generateName(
+    pathTmpl: string,
+    imageName: string,
+    hash = '',
+    note?: TemplateNote
+  ): string {
+    return renderPathTemplate(pathTmpl, { fileName: imageName, hash, note });
   }
 
-  private static generateUniqueFileName(originalName: string): string {
-    const now = new Date();
-    const timestamp =
-      now.getFullYear().toString() +
-      (now.getMonth() + 1).toString().padStart(2, '0') +
-      now.getDate().toString().padStart(2, '0') +
-      now.getHours().toString().padStart(2, '0') +
-      now.getMinutes().toString().padStart(2, '0') +
-      now.getSeconds().toString().padStart(2, '0') +
-      now.getMilliseconds().toString().padStart(3, '0');
-
-    // Extract file extension
-    const extension = originalName.split('.').pop() || 'png';
-
-    // If the original name is generic (like 'image'), use timestamp-based name
-    if (originalName.toLowerCase().includes('image') || originalName === 'blob') {
-      return `Pasted image ${timestamp}.${extension}`;
-    }
+  /**
+   * Whether the template uses a content hash token, so callers only hash when needed.
+   */
+  static needsHash(pathTmpl: string): boolean {
+    return templateNeedsHash(pathTmpl);
+  }
 
-    // For other cases, keep original name but add timestamp if needed
-    const nameWithoutExt = originalName.replace(/\.[^/.]+$/, '');
-    return `${nameWithoutExt} ${timestamp}.${extension}`;
+  // Same digest the request signer uses for payload hashes
+  static sha256Hex(data: ArrayBuffer | Uint8Array): Promise<string> {
+    return SigV4Signer.sha256Hex(data);
   }
 
-  private static generateRandomString(length: number): string {
-    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    let result = '';
+  /**
+   * The fixed folder part of a path template, i.e. everything up to the last slash before the
+   * first variable. All objects uploaded with the template live under this prefix.
+   */
+  static keyPrefix(pathTmpl: string): string {
+    const fixed = (pathTmpl ?? '').split('{')[0].replace(/^\/+/, '');
+    return fixed.substring(0, fixed.lastIndexOf('/') + 1);
+  }
 
-    for (let i = 0; i < length; i++) {
-      const randomIndex = Math.floor(Math.random() * characters.length);
-      result += characters.charAt(randomIndex);
+  static formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+      value /= 1024;
+      unit++;
     }
-
-    return result;
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
   }
 
   static customizeDomainName(url: string, customDomainName: string): string {
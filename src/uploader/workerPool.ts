@@ -0,0 +1,51 @@
+/**
+ * Run `worker` over all items with at most `concurrency` running at once.
+ * Once the signal is aborted no new items are started; running ones are awaited.
+ */
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  const runnerCount = Math.min(Math.max(1, concurrency), items.length);
+  const runners = Array.from({ length: runnerCount }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+}
+
+export type Limiter = <R>(task: () => Promise<R>) => Promise<R>;
+
+/**
+ * Create a function that runs tasks with at most `concurrency` of them in flight,
+ * shared by every caller holding the limiter.
+ */
+export function createLimiter(concurrency: number): Limiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  // A finishing task hands its slot straight to the next waiting one
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  return async <R>(task: () => Promise<R>): Promise<R> => {
+    if (active >= Math.max(1, concurrency)) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}